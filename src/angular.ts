@@ -0,0 +1,175 @@
+import { ErrorHandler, Injector, inject } from '@angular/core'
+import type { Provider, ProviderToken } from '@angular/core'
+import { getDefaultClient } from './index'
+import { captureRequestInfo } from './checkend'
+import type { CheckendClient } from './checkend'
+import type { Context } from './types'
+
+// Stack lines from zone.js internals, which wrap every async task
+const ZONE_FRAME = /\bzone(?:-evergreen|\.umd|\.min)?\.m?js\b|\b_?ZoneDelegate\.|\bZone\.(?:run|runTask|runGuarded)\b|\bZoneTask\.|\bdrainMicroTaskQueue\b/
+
+/**
+ * Options for CheckendErrorHandler
+ */
+export interface CheckendErrorHandlerOptions {
+  /** Client to report to (default: the module-level client) */
+  client?: CheckendClient
+  /** Log errors to the console like Angular's default ErrorHandler (default: true) */
+  logErrors?: boolean
+  /**
+   * The Router class from @angular/router, to report its current URL. Passed in
+   * rather than imported so apps without the router can use this entry.
+   */
+  router?: ProviderToken<RouterLike>
+}
+
+/**
+ * The part of Angular's Router the handler reads
+ */
+interface RouterLike {
+  url: string
+}
+
+/**
+ * The parts of Angular's HttpErrorResponse the handler reads
+ */
+interface HttpErrorResponseLike {
+  name: 'HttpErrorResponse'
+  message: string
+  status: number
+  statusText?: string
+  url?: string | null
+}
+
+/**
+ * Angular ErrorHandler that reports errors to Checkend.
+ *
+ * Prefer provideCheckendErrorHandler(), which also supplies the injector used
+ * to look up the router passed as `router`.
+ */
+export class CheckendErrorHandler implements ErrorHandler {
+  private options: CheckendErrorHandlerOptions
+  private injector: Injector | null
+
+  constructor(options: CheckendErrorHandlerOptions = {}, injector: Injector | null = null) {
+    this.options = options
+    this.injector = injector
+  }
+
+  handleError(error: unknown): void {
+    const client = this.options.client ?? getDefaultClient()
+    const unwrapped = unwrapError(error)
+
+    let reported: Error
+    const context: Context = {}
+
+    if (isHttpErrorResponse(unwrapped)) {
+      reported = new Error(unwrapped.message)
+      reported.name = 'HttpErrorResponse'
+      reported.stack = undefined
+      context.http = { status: unwrapped.status, statusText: unwrapped.statusText, url: unwrapped.url }
+    } else {
+      reported = stripZoneFrames(toError(unwrapped))
+    }
+
+    client.notify(reported, {
+      context,
+      request: { ...captureRequestInfo(), routerUrl: this.routerUrl(client) },
+      tags: ['angular'],
+    })
+
+    if (this.options.logErrors ?? true) {
+      console.error('ERROR', error)
+    }
+  }
+
+  private routerUrl(client: CheckendClient): string | undefined {
+    try {
+      const { router } = this.options
+      const url = router ? this.injector?.get(router, null)?.url : undefined
+      return url === undefined ? undefined : client.sanitizeUrl(url)
+    } catch {
+      // The router may not be available yet while the app bootstraps
+      return undefined
+    }
+  }
+}
+
+/**
+ * Provide CheckendErrorHandler as the app's ErrorHandler
+ *
+ * @example
+ * bootstrapApplication(AppComponent, {
+ *   providers: [provideCheckendErrorHandler({ router: Router })],
+ * })
+ */
+export function provideCheckendErrorHandler(options: CheckendErrorHandlerOptions = {}): Provider {
+  return {
+    provide: ErrorHandler,
+    useFactory: () => new CheckendErrorHandler(options, inject(Injector)),
+  }
+}
+
+/**
+ * Find the original error inside Angular and zone.js wrappers
+ */
+export function unwrapError(error: unknown): unknown {
+  let current = error
+
+  for (let depth = 0; depth < 10; depth++) {
+    if (!current || typeof current !== 'object') break
+
+    const wrapper = current as { ngOriginalError?: unknown; rejection?: unknown; message?: unknown }
+
+    if (wrapper.ngOriginalError) {
+      current = wrapper.ngOriginalError
+    } else if (
+      'rejection' in wrapper &&
+      typeof wrapper.message === 'string' &&
+      wrapper.message.startsWith('Uncaught (in promise)')
+    ) {
+      // zone.js wraps unhandled promise rejections
+      current = wrapper.rejection
+    } else {
+      break
+    }
+  }
+
+  return current
+}
+
+function isHttpErrorResponse(value: unknown): value is HttpErrorResponseLike {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { name?: unknown }).name === 'HttpErrorResponse' &&
+    typeof (value as { status?: unknown }).status === 'number'
+  )
+}
+
+function stripZoneFrames(error: Error): Error {
+  if (!error.stack || !ZONE_FRAME.test(error.stack)) return error
+
+  const cleaned = new Error(error.message)
+  cleaned.name = error.name
+  cleaned.stack = error.stack
+    .split('\n')
+    .filter((line) => !ZONE_FRAME.test(line))
+    .join('\n')
+  return cleaned
+}
+
+function toError(value: unknown): Error {
+  if (value instanceof Error) return value
+
+  let message = 'Non-Error value thrown in Angular'
+  if (typeof value === 'string') {
+    message = value
+  } else if (typeof (value as { message?: unknown } | null)?.message === 'string') {
+    message = (value as { message: string }).message
+  }
+
+  const error = new Error(message)
+  error.name = 'AngularError'
+  return error
+}
@@ -0,0 +1,180 @@
+import type { Configuration } from './configuration'
+import type { Breadcrumb, BreadcrumbInput, BreadcrumbLevel } from './types'
+import { addInstrumentationHandler } from './instrument'
+import type { ConsoleLevel } from './instrument'
+
+const MAX_MESSAGE_LENGTH = 1000
+const MAX_SELECTOR_DEPTH = 5
+
+const CONSOLE_LEVEL_MAP: Record<ConsoleLevel, BreadcrumbLevel> = {
+  debug: 'debug',
+  info: 'info',
+  log: 'info',
+  warn: 'warning',
+  error: 'error',
+}
+
+/**
+ * Breadcrumbs keeps a bounded ring buffer of the most recent events.
+ */
+export class Breadcrumbs {
+  private buffer: Breadcrumb[] = []
+  private head = 0
+  private maxBreadcrumbs: number
+
+  constructor(maxBreadcrumbs: number) {
+    this.maxBreadcrumbs = Math.max(0, maxBreadcrumbs)
+  }
+
+  /**
+   * Record a breadcrumb, evicting the oldest one when the buffer is full
+   */
+  add(input: BreadcrumbInput): void {
+    if (this.maxBreadcrumbs === 0) return
+
+    const breadcrumb: Breadcrumb = {
+      type: input.type ?? 'manual',
+      message: truncate(input.message),
+      category: input.category,
+      level: input.level ?? 'info',
+      data: input.data,
+      timestamp: new Date().toISOString(),
+    }
+
+    if (this.buffer.length < this.maxBreadcrumbs) {
+      this.buffer.push(breadcrumb)
+    } else {
+      this.buffer[this.head] = breadcrumb
+      this.head = (this.head + 1) % this.maxBreadcrumbs
+    }
+  }
+
+  /**
+   * Get all breadcrumbs, oldest first
+   */
+  getAll(): Breadcrumb[] {
+    return [...this.buffer.slice(this.head), ...this.buffer.slice(0, this.head)]
+  }
+
+  /**
+   * Remove all breadcrumbs
+   */
+  clear(): void {
+    this.buffer = []
+    this.head = 0
+  }
+
+  get size(): number {
+    return this.buffer.length
+  }
+}
+
+/**
+ * Record clicks, console calls, navigations and network requests as breadcrumbs,
+ * passing navigation and request URLs through sanitizeUrl as they are recorded.
+ * Returns a function that removes the recorders.
+ */
+export function installBreadcrumbRecorders(
+  breadcrumbs: Breadcrumbs,
+  config: Configuration,
+  sanitizeUrl: (url: string) => string = (url) => url
+): () => void {
+  const removers = [
+    addInstrumentationHandler('click', ({ target }) => {
+      const selector = describeElement(target)
+      if (selector) {
+        breadcrumbs.add({ type: 'click', category: 'ui.click', message: selector })
+      }
+    }),
+
+    addInstrumentationHandler('console', ({ level, args }) => {
+      // Skip the SDK's own log output
+      if (typeof args[0] === 'string' && args[0].startsWith('[Checkend]')) return
+
+      breadcrumbs.add({
+        type: 'console',
+        category: 'console',
+        level: CONSOLE_LEVEL_MAP[level],
+        message: args.map(stringifyArg).join(' '),
+      })
+    }),
+
+    addInstrumentationHandler('navigation', (event) => {
+      const from = sanitizeUrl(event.from)
+      const to = sanitizeUrl(event.to)
+
+      breadcrumbs.add({
+        type: 'navigation',
+        category: 'navigation',
+        message: to,
+        data: { from, to },
+      })
+    }),
+
+    addInstrumentationHandler('request', ({ transport, method, url: rawUrl, status, duration }) => {
+      if (config.isIngestUrl(rawUrl)) return
+
+      const url = sanitizeUrl(rawUrl)
+      breadcrumbs.add({
+        type: 'request',
+        category: transport,
+        level: status === 0 || status >= 400 ? 'error' : 'info',
+        message: `${method} ${url} [${status || 'failed'}]`,
+        data: { method, url, status_code: status, duration },
+      })
+    }),
+  ]
+
+  return () => {
+    for (const remove of removers) remove()
+  }
+}
+
+/**
+ * Build a short CSS selector for a DOM element, e.g. "div#app > button.primary"
+ */
+export function describeElement(target: EventTarget | null): string {
+  if (typeof Element === 'undefined' || !(target instanceof Element)) {
+    return ''
+  }
+
+  const parts: string[] = []
+  let element: Element | null = target
+
+  while (element && parts.length < MAX_SELECTOR_DEPTH) {
+    let part = element.tagName.toLowerCase()
+
+    if (element.id) {
+      parts.unshift(`${part}#${element.id}`)
+      break
+    }
+
+    const classes = Array.from(element.classList).slice(0, 3)
+    if (classes.length > 0) {
+      part += `.${classes.join('.')}`
+    }
+
+    parts.unshift(part)
+
+    if (element.tagName === 'BODY' || element.tagName === 'HTML') break
+    element = element.parentElement
+  }
+
+  return parts.join(' > ')
+}
+
+function stringifyArg(arg: unknown): string {
+  if (typeof arg === 'string') return arg
+  if (arg instanceof Error) return `${arg.name}: ${arg.message}`
+
+  try {
+    return JSON.stringify(arg) ?? String(arg)
+  } catch {
+    return String(arg)
+  }
+}
+
+function truncate(message: string): string {
+  if (message.length <= MAX_MESSAGE_LENGTH) return message
+  return `${message.substring(0, MAX_MESSAGE_LENGTH - 3)}...`
+}
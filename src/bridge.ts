@@ -0,0 +1,65 @@
+import type { NoticePayload } from './types'
+
+/**
+ * Worker-to-page bridge.
+ *
+ * A worker configured with postMessageTarget posts its notice payloads
+ * instead of sending them; the page's client listens for them and delivers
+ * them through its own queue, retries and persistence.
+ */
+
+const MESSAGE_TYPE = 'checkend:notice'
+
+/**
+ * Something notices can be posted to: a dedicated worker's `self`, a
+ * MessagePort or a BroadcastChannel
+ */
+export interface MessageTarget {
+  postMessage(message: unknown): void
+}
+
+/**
+ * Something notices can be received from: a Worker, a MessagePort, a
+ * BroadcastChannel or `navigator.serviceWorker`
+ */
+export interface MessageSource {
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void
+}
+
+interface BridgeMessage {
+  type: typeof MESSAGE_TYPE
+  payload: NoticePayload
+}
+
+/**
+ * Post a notice payload to the page
+ */
+export function postNotice(target: MessageTarget, payload: NoticePayload): void {
+  const message: BridgeMessage = { type: MESSAGE_TYPE, payload }
+  target.postMessage(message)
+}
+
+/**
+ * Call onPayload for every notice posted to source. Other messages are ignored.
+ * Returns a function that stops listening.
+ */
+export function listenForNotices(source: MessageSource, onPayload: (payload: NoticePayload) => void): () => void {
+  const listener = (event: MessageEvent): void => {
+    if (isBridgeMessage(event.data)) {
+      onPayload(event.data.payload)
+    }
+  }
+
+  source.addEventListener('message', listener)
+  return () => source.removeEventListener('message', listener)
+}
+
+function isBridgeMessage(data: unknown): data is BridgeMessage {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as { type?: unknown }).type === MESSAGE_TYPE &&
+    typeof (data as { payload?: unknown }).payload === 'object'
+  )
+}
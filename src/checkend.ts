@@ -0,0 +1,701 @@
+import { Configuration } from './configuration'
+import { Client } from './client'
+import { SanitizeFilter } from './filters/sanitize'
+import { Breadcrumbs, installBreadcrumbRecorders } from './breadcrumbs'
+import { createNotice, createNoticeFromRaw } from './notice'
+import { installNetworkErrorCapture, createNetworkError } from './network'
+import { Scope } from './scope'
+import { Sampler } from './sampler'
+import { Deduplicator } from './dedupe'
+import { getGlobalScope, isWorkerScope } from './global'
+import { defaultIntegrations, resolveIntegrations } from './integrations'
+import { listenForNotices } from './bridge'
+import type { MessageSource } from './bridge'
+import type { RequestEvent } from './instrument'
+import type {
+  ConfigOptions,
+  Notice,
+  NotifyOptions,
+  Context,
+  User,
+  RequestInfo,
+  ApiResponse,
+  Breadcrumb,
+  BreadcrumbInput,
+  BeforeNotifyCallback,
+  BeforeNotifyResult,
+  Integration,
+} from './types'
+
+/**
+ * CheckendClient is an independent reporter with its own configuration,
+ * delivery queue, scopes and error handlers.
+ *
+ * Most apps use the module-level API, which wraps a default instance.
+ * Create your own instance to report to a second project, or to embed a
+ * reporter in a library without touching the host page's setup.
+ *
+ * @example
+ * import { CheckendClient } from '@checkend/browser'
+ *
+ * const checkend = new CheckendClient({ apiKey: 'widget-ingestion-key', captureUnhandled: false })
+ * checkend.notify(new Error('Widget failed to load'))
+ */
+export class CheckendClient {
+  private config: Configuration | null = null
+  private client: Client | null = null
+  private sanitizeFilter: SanitizeFilter | null = null
+  private breadcrumbs: Breadcrumbs | null = null
+  private sampler: Sampler | null = null
+  private deduplicator: Deduplicator | null = null
+  private uninstallBreadcrumbs: (() => void) | null = null
+  private uninstallNetworkCapture: (() => void) | null = null
+  private started = false
+  private scopes: Scope[] = [new Scope()]
+  private pending = new Set<Promise<void>>()
+  private integrations: Integration[] = []
+
+  constructor(options?: ConfigOptions) {
+    if (options) {
+      this.configure(options)
+    }
+  }
+
+  /**
+   * Configure this client and install its error handlers
+   */
+  configure(options: ConfigOptions): void {
+    // Handlers installed by an earlier configure() hold on to the objects replaced below
+    this.stop()
+    this.config = new Configuration(options)
+
+    if (!this.config.isValid()) {
+      console.warn('[Checkend] Invalid configuration: apiKey is required')
+      return
+    }
+
+    this.client = new Client(this.config)
+    this.sanitizeFilter = new SanitizeFilter(this.config.filterKeys, this.config)
+    this.breadcrumbs = new Breadcrumbs(this.config.maxBreadcrumbs)
+    this.sampler = new Sampler(this.config)
+    this.deduplicator = new Deduplicator(this.config.dedupeWindow, (notice) => this.sendFollowUp(notice))
+
+    this.start()
+  }
+
+  /**
+   * Stop the client and clean up
+   */
+  stop(): void {
+    if (!this.started) return
+
+    this.teardownIntegrations()
+    this.uninstallOnlineHandler()
+
+    if (this.uninstallBreadcrumbs) {
+      this.uninstallBreadcrumbs()
+      this.uninstallBreadcrumbs = null
+    }
+
+    if (this.uninstallNetworkCapture) {
+      this.uninstallNetworkCapture()
+      this.uninstallNetworkCapture = null
+    }
+
+    // Open dedupe windows would otherwise send their follow-ups after stopping
+    this.deduplicator?.clear()
+
+    this.started = false
+    this.log('Stopped')
+  }
+
+  /**
+   * Reset all client state
+   */
+  reset(): void {
+    this.stop()
+    this.config = null
+    this.client = null
+    this.sanitizeFilter = null
+    this.breadcrumbs = null
+    this.sampler = null
+    this.deduplicator = null
+    this.scopes = [new Scope()]
+  }
+
+  // ========== Primary API ==========
+
+  /**
+   * Report an error to Checkend
+   */
+  notify(error: Error, options: NotifyOptions = {}): void {
+    if (!this.shouldNotify()) return
+
+    const errorClass = error.name || 'Error'
+    const message = error.message || 'Unknown error'
+
+    if (this.config!.shouldIgnore(errorClass, message)) {
+      this.log(`Ignoring error: ${errorClass}`)
+      return
+    }
+
+    const notice = this.buildNotice(error, options)
+    this.enqueue(notice, options.scope ?? this.currentScope())
+  }
+
+  /**
+   * Report an error synchronously (returns promise)
+   */
+  async notifySync(error: Error, options: NotifyOptions = {}): Promise<ApiResponse | null> {
+    if (!this.shouldNotify()) return null
+
+    const notice = await this.runBeforeNotifyCallbacks(
+      this.buildNotice(error, options),
+      options.scope ?? this.currentScope()
+    )
+
+    if (!notice || !this.admit(notice) || !this.client) {
+      return null
+    }
+
+    return this.client.sendNotice(notice)
+  }
+
+  /**
+   * Flush all pending notices
+   */
+  async flush(): Promise<void> {
+    // Notices still waiting on async beforeNotify callbacks
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending)
+    }
+
+    this.deduplicator?.flush()
+
+    if (this.client) {
+      await this.client.flush()
+    }
+  }
+
+  /**
+   * Send notices posted by a worker configured with postMessageTarget.
+   * Returns a function that stops listening.
+   */
+  listenToWorker(source: MessageSource): () => void {
+    return listenForNotices(source, (payload) => {
+      if (!this.shouldNotify()) return
+      this.client!.queuePayload(payload)
+    })
+  }
+
+  // ========== Integrations ==========
+
+  /**
+   * Build a notice with the active scope's context, user, tags and breadcrumbs, without sending it
+   */
+  buildNotice(error: Error, options: NotifyOptions = {}): Notice {
+    return this.sanitizeError(createNotice(error, this.noticeOptions(options)))
+  }
+
+  /**
+   * Build a notice from an 'error' event's message and location, as buildNotice() does
+   * from an Error. Without an Error, the location stands in for the backtrace.
+   */
+  buildNoticeFromRaw(
+    message: string,
+    source?: string,
+    lineno?: number,
+    colno?: number,
+    error?: Error,
+    options: NotifyOptions = {}
+  ): Notice {
+    return this.sanitizeError(createNoticeFromRaw(message, source, lineno, colno, error, this.noticeOptions(options)))
+  }
+
+  /**
+   * Send a notice built with buildNotice() through integration processors,
+   * beforeNotify callbacks, dedupe and sampling, as notify() would.
+   * For integrations reporting errors that notify() can't describe.
+   */
+  captureNotice(notice: Notice, scope: Scope = this.currentScope()): void {
+    if (!this.shouldNotify()) return
+
+    if (this.config!.shouldIgnore(notice.errorClass, notice.message)) {
+      this.log(`Ignoring error: ${notice.errorClass}`)
+      return
+    }
+
+    this.enqueue(notice, scope)
+  }
+
+  /**
+   * Strip credentials and sensitive query parameters from a URL, as this client does for its notices
+   */
+  sanitizeUrl(url: string): string {
+    return this.sanitizeFilter ? this.sanitizeFilter.sanitizeUrl(url) : url
+  }
+
+  /**
+   * Get this client's configuration, or null before configure()
+   */
+  getConfiguration(): Configuration | null {
+    return this.config
+  }
+
+  /**
+   * Get an installed integration by name
+   */
+  getIntegration(name: string): Integration | undefined {
+    return this.integrations.find((integration) => integration.name === name)
+  }
+
+  // ========== Context Management ==========
+
+  /**
+   * Set context data that will be included with errors reported from the active scope
+   */
+  setContext(context: Context): void {
+    this.currentScope().setContext(context)
+  }
+
+  /**
+   * Set user information for error tracking on the active scope
+   */
+  setUser(user: User): void {
+    this.currentScope().setUser(user)
+  }
+
+  /**
+   * Get the context of the active scope
+   */
+  getContext(): Context {
+    return this.currentScope().getContext()
+  }
+
+  /**
+   * Get the user of the active scope
+   */
+  getUser(): User {
+    return this.currentScope().getUser()
+  }
+
+  /**
+   * Record a breadcrumb that will be attached to subsequent errors
+   */
+  addBreadcrumb(breadcrumb: BreadcrumbInput): void {
+    this.breadcrumbs?.add(breadcrumb)
+  }
+
+  /**
+   * Get the recorded breadcrumbs, oldest first
+   */
+  getBreadcrumbs(): Breadcrumb[] {
+    return this.breadcrumbs?.getAll() ?? []
+  }
+
+  /**
+   * Clear all context and user data set on the active scope
+   */
+  clear(): void {
+    this.currentScope().clear()
+  }
+
+  // ========== Scopes ==========
+
+  /**
+   * Run a callback in a new scope forked from the active one.
+   * The scope is removed as soon as the callback returns. An async callback's
+   * scope is only active until its first await, because the scope stack is
+   * shared by every flow on the page; after that, pass it to notify() as `scope`.
+   */
+  withScope<T>(callback: (scope: Scope) => T): T {
+    const scope = this.pushScope()
+
+    try {
+      return callback(scope)
+    } finally {
+      this.removeScope(scope)
+    }
+  }
+
+  /**
+   * Fork the active scope and make the fork active
+   */
+  pushScope(): Scope {
+    const scope = this.currentScope().fork()
+    this.scopes.push(scope)
+    return scope
+  }
+
+  /**
+   * Remove the active scope, restoring the one below it. The global scope is never removed.
+   */
+  popScope(): void {
+    if (this.scopes.length > 1) {
+      this.scopes.pop()
+    }
+  }
+
+  /**
+   * Get the active scope
+   */
+  getCurrentScope(): Scope {
+    return this.currentScope()
+  }
+
+  // ========== Error Handlers ==========
+
+  private start(): void {
+    if (this.started || !this.config) return
+
+    this.started = true
+
+    this.setupIntegrations()
+
+    if (this.breadcrumbs && this.config.maxBreadcrumbs > 0) {
+      const sanitizeUrl = (url: string): string => this.sanitizeUrl(url)
+      this.uninstallBreadcrumbs = installBreadcrumbRecorders(this.breadcrumbs, this.config, sanitizeUrl)
+    }
+
+    if (this.config.captureNetworkErrors) {
+      this.uninstallNetworkCapture = installNetworkErrorCapture(this.config, (event) => this.handleNetworkError(event))
+    }
+
+    if (this.config.persistQueue) {
+      this.installOnlineHandler()
+      this.client?.restorePersisted()
+    }
+
+    this.log(`Started (environment: ${this.config.environment})`)
+  }
+
+  private setupIntegrations(): void {
+    this.integrations = resolveIntegrations(defaultIntegrations(this.config!), this.config!.integrations)
+
+    for (const integration of this.integrations) {
+      try {
+        integration.setup(this)
+        this.log(`Integration ${integration.name} installed`)
+      } catch (e) {
+        logWarn(`Integration ${integration.name} failed to set up: ${e}`)
+      }
+    }
+  }
+
+  private teardownIntegrations(): void {
+    for (const integration of [...this.integrations].reverse()) {
+      try {
+        integration.teardown()
+      } catch (e) {
+        logWarn(`Integration ${integration.name} failed to tear down: ${e}`)
+      }
+    }
+    this.integrations = []
+  }
+
+  private installOnlineHandler(): void {
+    getGlobalScope()?.addEventListener('online', this.handleOnline)
+  }
+
+  private uninstallOnlineHandler(): void {
+    getGlobalScope()?.removeEventListener('online', this.handleOnline)
+  }
+
+  private handleOnline = (): void => {
+    this.log('Back online, replaying persisted notices')
+    this.client?.restorePersisted()
+  }
+
+  private handleNetworkError(event: RequestEvent): void {
+    if (!this.shouldNotify()) return
+
+    const url = this.sanitizeUrl(event.url)
+    const error = createNetworkError(event, url)
+
+    if (this.config!.shouldIgnore(error.name, error.message)) {
+      return
+    }
+
+    const scope = this.currentScope()
+    const request = this.sanitize({
+      ...captureRequestInfo(),
+      method: event.method,
+      url,
+      status: event.status,
+      duration: event.duration,
+    })
+    const context = this.sanitize({ ...scope.getContext(), transport: event.transport })
+    const user = this.sanitizeUser(scope.getUser())
+
+    const notice = this.sanitizeError(
+      createNotice(error, {
+        context,
+        request,
+        user,
+        breadcrumbs: this.captureBreadcrumbs(),
+        fingerprint: scope.getFingerprint(),
+        tags: mergeTags(scope.getTags(), ['network']),
+        environment: this.config!.environment,
+      })
+    )
+
+    this.enqueue(notice, scope)
+  }
+
+  // ========== Helpers ==========
+
+  private shouldNotify(): boolean {
+    if (!this.started || !this.config || !this.client) return false
+    if (!this.config.isValid()) return false
+    if (!this.config.enabled) return false
+    return true
+  }
+
+  /**
+   * Run beforeNotify callbacks, then dedupe and sample the notice and queue it.
+   * Stays synchronous unless a callback returns a promise.
+   */
+  private enqueue(notice: Notice, scope: Scope): void {
+    const send = (processed: Notice | null): void => {
+      if (processed && this.admit(processed)) {
+        this.client?.queueNotice(processed)
+      }
+    }
+
+    const result = this.runBeforeNotifyCallbacks(notice, scope)
+
+    if (isPromiseLike(result)) {
+      const task = Promise.resolve(result)
+        .then(send)
+        .finally(() => this.pending.delete(task))
+      this.pending.add(task)
+    } else {
+      send(result as Notice | null)
+    }
+  }
+
+  /**
+   * Send a dedupe follow-up, subject to the caps but not sampled again
+   */
+  private sendFollowUp(notice: Notice): void {
+    if (!this.shouldNotify()) return
+    if (this.sampler && !this.sampler.withinCaps(notice)) {
+      this.log(`Dropping follow-up for ${notice.errorClass}: over the notice caps`)
+      return
+    }
+    this.client?.queueNotice(notice)
+  }
+
+  private admit(notice: Notice): boolean {
+    if (this.deduplicator?.isDuplicate(notice)) {
+      this.log('Suppressing repeated notice')
+      return false
+    }
+
+    if (this.sampler && !this.sampler.sample(notice)) {
+      this.log('Notice dropped by sampling or rate caps')
+      return false
+    }
+
+    this.deduplicator?.record(notice)
+    return true
+  }
+
+  /**
+   * Run config and scope callbacks in order. Each receives the notice returned
+   * by the previous one. Returns null if a callback dropped the notice.
+   */
+  private runBeforeNotifyCallbacks(notice: Notice, scope: Scope): Notice | null | Promise<Notice | null> {
+    if (!this.config) return notice
+
+    const callbacks = [...this.integrationProcessors(), ...this.config.beforeNotify, ...scope.getBeforeNotify()]
+    let current = notice
+
+    for (let i = 0; i < callbacks.length; i++) {
+      let result: BeforeNotifyResult | Promise<BeforeNotifyResult>
+      try {
+        result = callbacks[i](current)
+      } catch (e) {
+        logWarn(`beforeNotify callback failed: ${e}`)
+        continue
+      }
+
+      if (isPromiseLike(result)) {
+        return this.runAsyncBeforeNotify(current, result as Promise<BeforeNotifyResult>, callbacks.slice(i + 1))
+      }
+
+      const next = this.applyBeforeNotifyResult(current, result as BeforeNotifyResult)
+      if (!next) return null
+      current = next
+    }
+
+    return current
+  }
+
+  private async runAsyncBeforeNotify(
+    notice: Notice,
+    first: Promise<BeforeNotifyResult>,
+    rest: BeforeNotifyCallback[]
+  ): Promise<Notice | null> {
+    let current = notice
+    let result: Promise<BeforeNotifyResult> | BeforeNotifyResult = first
+
+    for (let i = 0; ; i++) {
+      try {
+        const next = this.applyBeforeNotifyResult(current, await this.withTimeout(result))
+        if (!next) return null
+        current = next
+      } catch (e) {
+        logWarn(`beforeNotify callback failed: ${e}`)
+      }
+
+      if (i >= rest.length) return current
+
+      try {
+        result = rest[i](current)
+      } catch (e) {
+        result = Promise.reject(e)
+      }
+    }
+  }
+
+  private integrationProcessors(): BeforeNotifyCallback[] {
+    return this.integrations
+      .filter((integration) => integration.processNotice)
+      .map((integration) => (notice: Notice) => integration.processNotice!(notice))
+  }
+
+  private applyBeforeNotifyResult(notice: Notice, result: BeforeNotifyResult): Notice | null {
+    if (result === false || result === null) {
+      this.log('Notice blocked by beforeNotify callback')
+      return null
+    }
+
+    // Callbacks may also edit the notice in place and return nothing
+    return typeof result === 'object' ? result : notice
+  }
+
+  private withTimeout(result: Promise<BeforeNotifyResult> | BeforeNotifyResult): Promise<BeforeNotifyResult> {
+    const timeout = this.config?.beforeNotifyTimeout ?? 0
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const expired = new Promise<BeforeNotifyResult>((resolve) => {
+      timer = setTimeout(() => {
+        logWarn(`beforeNotify callback timed out after ${timeout}ms, sending the notice unchanged`)
+        resolve(undefined)
+      }, timeout)
+    })
+
+    return Promise.race([Promise.resolve(result), expired]).finally(() => clearTimeout(timer))
+  }
+
+  private currentScope(): Scope {
+    return this.scopes[this.scopes.length - 1]
+  }
+
+  private removeScope(scope: Scope): void {
+    const index = this.scopes.indexOf(scope)
+    if (index > 0) {
+      this.scopes.splice(index, 1)
+    }
+  }
+
+  /**
+   * The active scope's data merged with the notify options, sanitized
+   */
+  private noticeOptions(options: NotifyOptions): Parameters<typeof createNotice>[1] {
+    const scope = options.scope ?? this.currentScope()
+
+    return {
+      context: this.sanitize({ ...scope.getContext(), ...options.context }),
+      request: this.sanitizeRequest(options.request ?? captureRequestInfo()),
+      user: this.sanitizeUser({ ...scope.getUser(), ...options.user }),
+      breadcrumbs: this.captureBreadcrumbs(),
+      fingerprint: options.fingerprint ?? scope.getFingerprint(),
+      tags: mergeTags(scope.getTags(), options.tags),
+      environment: this.config?.environment,
+    }
+  }
+
+  private sanitize<T>(data: T): T {
+    if (!this.sanitizeFilter) return data
+    return this.sanitizeFilter.sanitize(data)
+  }
+
+  /**
+   * User data is there to identify the user, so only filterKeys apply to it
+   */
+  private sanitizeUser<T>(user: T): T {
+    if (!this.sanitizeFilter) return user
+    return this.sanitizeFilter.sanitize(user, false)
+  }
+
+  private sanitizeRequest(request: RequestInfo): RequestInfo {
+    if (!this.sanitizeFilter || !request.url) return this.sanitize(request)
+    return this.sanitize({ ...request, url: this.sanitizeFilter.sanitizeUrl(request.url) })
+  }
+
+  /**
+   * Scrub the message and backtrace URLs of the error and its causes
+   */
+  private sanitizeError(notice: Notice): Notice {
+    const filter = this.sanitizeFilter
+    if (!filter) return notice
+
+    const sanitized = filter.sanitizeError(notice)
+    if (notice.causes) {
+      sanitized.causes = notice.causes.map((cause) => filter.sanitizeError(cause))
+    }
+    return sanitized
+  }
+
+  private captureBreadcrumbs(): Breadcrumb[] {
+    if (!this.breadcrumbs) return []
+    return this.sanitize(this.breadcrumbs.getAll())
+  }
+
+  private log(message: string): void {
+    if (this.config?.debug) {
+      console.log(`[Checkend] ${message}`)
+    }
+  }
+}
+
+/**
+ * Describe the current page for a notice's request field
+ */
+export function captureRequestInfo(): RequestInfo {
+  if (isWorkerScope()) {
+    // Workers have their own location and no document or viewport
+    return {
+      url: self.location?.href,
+      userAgent: navigator?.userAgent,
+      language: navigator?.language,
+    }
+  }
+
+  if (typeof window === 'undefined') return {}
+
+  return {
+    url: window.location?.href,
+    userAgent: navigator?.userAgent,
+    referrer: document?.referrer,
+    language: navigator?.language,
+    viewport: {
+      width: window.innerWidth,
+      height: window.innerHeight,
+    },
+  }
+}
+
+function isPromiseLike<T>(value: T): boolean {
+  return typeof (value as { then?: unknown } | null)?.then === 'function'
+}
+
+function mergeTags(scopeTags: string[], tags: string[] = []): string[] {
+  return [...scopeTags, ...tags.filter((tag) => !scopeTags.includes(tag))]
+}
+
+function logWarn(message: string): void {
+  console.warn(`[Checkend] ${message}`)
+}
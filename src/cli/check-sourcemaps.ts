@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+import { checkSourceMaps } from '../symbolicate'
+
+const USAGE = 'Usage: checkend-check-sourcemaps <bundle-dir> [--maps <source-map-dir>]'
+
+async function main(args: string[]): Promise<number> {
+  const mapsIndex = args.indexOf('--maps')
+  const mapsValueIndex = mapsIndex >= 0 ? mapsIndex + 1 : -1
+  const sourceMapDir = mapsIndex >= 0 ? args[mapsValueIndex] : undefined
+  const bundleDir = args.find((arg, i) => !arg.startsWith('--') && i !== mapsValueIndex)
+
+  if (!bundleDir || (mapsIndex >= 0 && !sourceMapDir) || args.includes('--help')) {
+    console.error(USAGE)
+    return 2
+  }
+
+  const results = await checkSourceMaps(bundleDir, { sourceMapDir })
+
+  if (results.length === 0) {
+    console.error(`No scripts found in ${bundleDir}`)
+    return 1
+  }
+
+  for (const result of results) {
+    const detail = result.error ? ` (${result.error})` : result.sourceMap ? ` -> ${result.sourceMap}` : ''
+    console.log(`${result.status.padEnd(7)} ${result.file}${detail}`)
+  }
+
+  const failed = results.filter((result) => result.status === 'missing' || result.status === 'invalid')
+  console.log(`\n${results.length - failed.length}/${results.length} scripts have source maps`)
+
+  return failed.length > 0 ? 1 : 0
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code
+  },
+  (error: unknown) => {
+    console.error(`[Checkend] ${error instanceof Error ? error.message : error}`)
+    process.exitCode = 1
+  }
+)
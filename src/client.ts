@@ -1,9 +1,19 @@
 import type { Configuration } from './configuration'
-import type { Notice, ApiResponse, NoticePayload } from './types'
+import type {
+  Notice,
+  ApiResponse,
+  NoticePayload,
+  DeliveryResult,
+  Transport,
+  BatchTransportResult,
+} from './types'
 import { toPayload } from './notice'
-import { VERSION } from './version'
+import { trimPayload, payloadSize } from './trim'
+import { PersistentQueue, createQueueStore } from './storage'
+import { postNotice } from './bridge'
+import { FetchTransport, BeaconTransport } from './transports'
 
-const USER_AGENT = `@checkend/browser/${VERSION}`
+const BASE_BACKOFF_DELAY = 1000
 
 /**
  * HTTP client for sending error notices to the Checkend API.
@@ -11,40 +21,101 @@ const USER_AGENT = `@checkend/browser/${VERSION}`
 export class Client {
   private config: Configuration
   private queue: NoticePayload[] = []
-  private sending = false
+  private processing: Promise<void> | null = null
+  private rateLimitedUntil = 0
+  private persistentQueue: PersistentQueue | null = null
+  // Queued payloads that are also in persistent storage, leased to this client
+  private restored = new Set<NoticePayload>()
+  // Identifies this client's leases on stored notices, which other tabs share
+  private id = Math.random().toString(36).slice(2)
+  // The notice behind each queued payload, for afterNotify callbacks
+  private notices = new WeakMap<NoticePayload, Notice>()
+  private batchTimer: ReturnType<typeof setTimeout> | null = null
+  private batchUnsupported = false
+  private transport: Transport
+  // Tried first by sendNotice, unless a custom transport is configured
+  private beacon: Transport | null
 
   constructor(config: Configuration) {
     this.config = config
+    this.transport = config.transport ?? new FetchTransport(config)
+    this.beacon = !config.transport && config.useSendBeacon ? new BeaconTransport(config) : null
+
+    if (config.persistQueue) {
+      const key = `checkend:queue:${config.apiKey}`
+      const store = createQueueStore(key)
+      if (store) {
+        this.persistentQueue = new PersistentQueue(
+          store,
+          { maxEntries: config.maxQueueSize, maxBytes: config.persistMaxBytes, maxAge: config.persistMaxAge },
+          key
+        )
+      }
+    }
   }
 
   /**
    * Send a notice to the Checkend API
    */
   async sendNotice(notice: Notice): Promise<ApiResponse | null> {
-    const payload = toPayload(notice)
+    const payload = this.buildPayload(notice)
+
+    if (this.config.postMessageTarget) {
+      this.forward(payload)
+      this.runAfterNotify(notice, { response: null })
+      return null
+    }
 
     // Try sendBeacon first for reliability (works even on page unload)
-    if (this.config.useSendBeacon && this.trySendBeacon(payload)) {
-      this.log('Notice sent via sendBeacon')
-      return null // sendBeacon doesn't return response
+    if (this.beacon && !this.isRateLimited()) {
+      const beaconResult = await this.beacon.send(payload)
+      if (!beaconResult.error) {
+        this.log('Notice sent via sendBeacon')
+        this.runAfterNotify(notice, { response: null })
+        return null // sendBeacon doesn't return response
+      }
     }
 
-    // Fall back to fetch
-    return this.sendViaFetch(payload)
+    // Fall back to the transport
+    const result = await this.deliver(() => this.transport.send(payload))
+    if (result.retryable) {
+      await this.persist([payload])
+    }
+    this.runAfterNotify(notice, { response: result.response, error: result.error })
+    return result.response
   }
 
   /**
    * Queue a notice for sending (non-blocking)
    */
   queueNotice(notice: Notice): boolean {
+    const payload = this.buildPayload(notice)
+
+    if (this.config.postMessageTarget) {
+      this.forward(payload)
+      this.runAfterNotify(notice, { response: null })
+      return true
+    }
+
+    this.notices.set(payload, notice)
+    if (!this.queuePayload(payload)) {
+      this.afterDelivery(payload, { response: null, error: new Error('Queue full, notice dropped') })
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Queue an already-built payload for sending, such as one posted by a worker
+   */
+  queuePayload(payload: NoticePayload): boolean {
     if (this.queue.length >= this.config.maxQueueSize) {
       this.log('Queue full, dropping notice')
       return false
     }
 
-    const payload = toPayload(notice)
     this.queue.push(payload)
-    this.processQueue()
+    this.scheduleProcessing()
     return true
   }
 
@@ -52,107 +123,296 @@ export class Client {
    * Flush all queued notices
    */
   async flush(): Promise<void> {
-    while (this.queue.length > 0) {
-      await this.processQueue()
+    this.cancelBatchTimer()
+
+    while (this.queue.length > 0 || this.processing) {
+      await (this.processing ?? this.processQueue())
+    }
+  }
+
+  /**
+   * Re-queue notices persisted by a previous page load or while offline.
+   * They stay in storage until delivered, leased so other tabs don't send
+   * them too, and those that don't fit in the queue wait there for the next
+   * restore.
+   */
+  async restorePersisted(): Promise<void> {
+    if (!this.persistentQueue || this.isOffline()) return
+
+    const room = Math.max(0, this.config.maxQueueSize - this.queue.length)
+    if (room === 0) return
+
+    // Long enough for a delivery and all its retries; a tab closed mid-delivery leaves its leases to run out
+    const leaseDuration = this.config.maxAttempts * (this.config.timeout + this.config.maxBackoff)
+    let payloads: NoticePayload[]
+    try {
+      // Notices an earlier restore already queued are still leased, so they're skipped
+      payloads = await this.persistentQueue.claim(this.id, room, leaseDuration)
+    } catch (e) {
+      this.log(`Failed to read persisted notices: ${e}`)
+      return
+    }
+
+    if (payloads.length === 0) return
+
+    this.log(`Restoring ${payloads.length} persisted notice(s)`)
+    for (const payload of payloads) {
+      this.restored.add(payload)
     }
+    this.queue.push(...payloads)
+    this.processInBackground()
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.sending || this.queue.length === 0) {
+  /**
+   * Send right away, or when batching, once the batch interval passes or a batch fills up
+   */
+  private scheduleProcessing(): void {
+    if (!this.isBatching() || this.processing || this.queue.length >= this.config.batchMaxSize) {
+      this.cancelBatchTimer()
+      this.processInBackground()
       return
     }
 
-    this.sending = true
+    this.batchTimer ??= setTimeout(() => {
+      this.batchTimer = null
+      this.processInBackground()
+    }, this.config.batchInterval)
+  }
+
+  /**
+   * Process the queue without waiting for it, so nothing can reject unhandled
+   */
+  private processInBackground(): void {
+    this.processQueue().catch((e) => this.logError(`Failed to process queue: ${e}`))
+  }
+
+  private cancelBatchTimer(): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer)
+      this.batchTimer = null
+    }
+  }
+
+  private isBatching(): boolean {
+    return this.config.batch && !!this.transport.sendBatch && !this.batchUnsupported
+  }
 
+  private processQueue(): Promise<void> {
+    if (this.processing) {
+      return this.processing
+    }
+    if (this.queue.length === 0) {
+      return Promise.resolve()
+    }
+
+    this.processing = this.drainQueue().finally(() => {
+      this.processing = null
+    })
+    return this.processing
+  }
+
+  private async drainQueue(): Promise<void> {
     while (this.queue.length > 0) {
+      if (this.isOffline() && this.persistentQueue) {
+        this.log('Offline, persisting queued notices')
+        const payloads = this.queue.splice(0)
+        await this.settle(payloads, true)
+        for (const payload of payloads) {
+          this.afterDelivery(payload, { response: null, error: new Error('Offline, notice stored for later delivery') })
+        }
+        break
+      }
+
+      if (this.isBatching()) {
+        await this.deliverBatch(this.takeBatch())
+        continue
+      }
+
       const payload = this.queue.shift()
       if (payload) {
-        await this.sendViaFetch(payload)
+        await this.deliverOne(payload)
       }
     }
+  }
 
-    this.sending = false
+  private async deliverOne(payload: NoticePayload): Promise<void> {
+    const result = await this.deliver(() => this.transport.send(payload))
+    await this.settle([payload], result.retryable)
+    this.afterDelivery(payload, { response: result.response, error: result.error })
   }
 
-  private trySendBeacon(payload: NoticePayload): boolean {
-    if (typeof navigator === 'undefined' || !navigator.sendBeacon) {
-      return false
+  private async deliverBatch(payloads: NoticePayload[]): Promise<void> {
+    const result = await this.deliver(() => this.transport.sendBatch!(payloads))
+
+    if (result.batchUnsupported) {
+      this.log('No batch route on the server, sending notices one at a time')
+      this.batchUnsupported = true
+      for (const payload of payloads) {
+        await this.deliverOne(payload)
+      }
+      return
     }
 
-    try {
-      const blob = new Blob([JSON.stringify(payload)], { type: 'application/json' })
-      // Note: sendBeacon doesn't support custom headers
-      // For now, we'll use a query param for the API key
-      const url = `${this.config.ingestUrl}?key=${encodeURIComponent(this.config.apiKey)}`
-      return navigator.sendBeacon(url, blob)
-    } catch (e) {
-      this.log(`sendBeacon failed: ${e}`)
-      return false
+    await this.settle(payloads, result.retryable)
+    payloads.forEach((payload, index) => {
+      this.afterDelivery(payload, { response: result.responses?.[index] ?? null, error: result.error })
+    })
+  }
+
+  /**
+   * Take queued payloads up to batchMaxSize notices and batchMaxBytes, always at least one
+   */
+  private takeBatch(): NoticePayload[] {
+    let count = 0
+    let bytes = 0
+
+    while (count < this.queue.length && count < this.config.batchMaxSize) {
+      bytes += JSON.stringify(this.queue[count]).length
+      if (count > 0 && bytes > this.config.batchMaxBytes) break
+      count++
     }
+
+    return this.queue.splice(0, count)
   }
 
-  private async sendViaFetch(payload: NoticePayload): Promise<ApiResponse | null> {
+  /**
+   * Make a request, retrying retryable failures with jittered exponential backoff.
+   * Waits out a rate limit of up to maxBackoff; a longer one fails the delivery
+   * as retryable right away, so the notice is persisted instead of held up.
+   */
+  private async deliver(send: () => Promise<BatchTransportResult>): Promise<BatchTransportResult> {
+    const maxAttempts = this.config.maxAttempts
+    let result: BatchTransportResult = { response: null, retryable: false }
+    let attempts = 0
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const pause = this.rateLimitedUntil - Date.now()
+      if (pause > this.config.maxBackoff) {
+        this.log(`Rate limited for another ${pause}ms, not waiting`)
+        return { response: null, retryable: true, error: new Error('Rate limited (429)') }
+      }
+      if (pause > 0) {
+        await sleep(pause)
+      }
+
+      try {
+        result = await send()
+      } catch (e) {
+        // A transport that throws is treated like one that failed to reach the server
+        result = { response: null, retryable: true, error: e instanceof Error ? e : new Error(String(e)) }
+      }
+      attempts = attempt
+
+      if (result.retryAfter !== undefined) {
+        // A 429 pauses all sending, not just this notice
+        this.rateLimitedUntil = Date.now() + result.retryAfter
+        this.logWarn(`Rate limited by server - pausing for ${result.retryAfter}ms`)
+      }
+
+      if (!result.retryable || attempt === maxAttempts || (result.retryAfter ?? 0) > this.config.maxBackoff) {
+        break
+      }
+
+      if (result.retryAfter === undefined) {
+        const delay = this.backoffDelay(attempt)
+        this.log(`Retrying in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`)
+        await sleep(delay)
+      }
+    }
+
+    if (result.retryable) {
+      this.logError(`Giving up after ${attempts} attempt(s)`)
+    }
+
+    return result
+  }
+
+  private backoffDelay(attempt: number): number {
+    const delay = Math.min(this.config.maxBackoff, BASE_BACKOFF_DELAY * 2 ** (attempt - 1))
+    // Equal jitter: somewhere between half and the full delay
+    return Math.round(delay / 2 + Math.random() * (delay / 2))
+  }
+
+  private isRateLimited(): boolean {
+    return this.rateLimitedUntil > Date.now()
+  }
+
+  /**
+   * Bring storage up to date after a delivery attempt: persist new payloads that
+   * can be retried, release restored ones for the next restore, and remove
+   * restored ones that are done with
+   */
+  private async settle(payloads: NoticePayload[], retryable: boolean): Promise<void> {
+    const restored = payloads.filter((payload) => this.restored.has(payload))
+    for (const payload of restored) {
+      this.restored.delete(payload)
+    }
+
+    if (retryable) {
+      // Restored payloads are still stored
+      await this.persist(payloads.filter((payload) => !restored.includes(payload)))
+    }
+    if (restored.length > 0 && this.persistentQueue) {
+      try {
+        await (retryable ? this.persistentQueue.release(restored, this.id) : this.persistentQueue.remove(restored))
+      } catch (e) {
+        this.log(`Failed to update stored notices: ${e}`)
+      }
+    }
+  }
+
+  private async persist(payloads: NoticePayload[]): Promise<void> {
+    if (!this.persistentQueue || payloads.length === 0) return
+
     try {
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
-
-      const response = await fetch(this.config.ingestUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Checkend-Ingestion-Key': this.config.apiKey,
-          'User-Agent': USER_AGENT,
-        },
-        body: JSON.stringify(payload),
-        signal: controller.signal,
-      })
-
-      clearTimeout(timeoutId)
-
-      return this.handleResponse(response)
+      await this.persistentQueue.add(payloads)
+      this.log(`Persisted ${payloads.length} notice(s) for later delivery`)
     } catch (e) {
-      if (e instanceof Error && e.name === 'AbortError') {
-        this.logError('Request timeout')
-      } else {
-        this.logError(`Failed to send notice: ${e}`)
-      }
-      return null
+      this.log(`Failed to persist notices: ${e}`)
     }
   }
 
-  private async handleResponse(response: Response): Promise<ApiResponse | null> {
-    const status = response.status
+  private buildPayload(notice: Notice): NoticePayload {
+    const payload = trimPayload(toPayload(notice), this.config.maxPayloadSize)
+    if (payload.truncated) {
+      this.log(`Notice trimmed from ${payload.truncated.original_size} bytes to fit maxPayloadSize`)
+      const size = payloadSize(payload)
+      if (size > this.config.maxPayloadSize) {
+        this.logWarn(`Notice is still ${size} bytes after trimming, over maxPayloadSize`)
+      }
+    }
+    return payload
+  }
 
-    if (status === 201) {
-      const result = await response.json() as ApiResponse
-      this.log(`Notice sent successfully: id=${result.id} problem_id=${result.problem_id}`)
-      return result
+  private afterDelivery(payload: NoticePayload, result: DeliveryResult): void {
+    const notice = this.notices.get(payload)
+    if (notice) {
+      this.notices.delete(payload)
+      this.runAfterNotify(notice, result)
     }
+  }
 
-    const body = await response.text().catch(() => '')
+  private runAfterNotify(notice: Notice, result: DeliveryResult): void {
+    for (const callback of this.config.afterNotify) {
+      try {
+        callback(notice, result)
+      } catch (e) {
+        this.logWarn(`afterNotify callback failed: ${e}`)
+      }
+    }
+  }
 
-    switch (status) {
-      case 400:
-        this.logWarn(`Bad request: ${body}`)
-        break
-      case 401:
-        this.logError('Authentication failed - check your API key')
-        break
-      case 422:
-        this.logWarn(`Invalid notice payload: ${body}`)
-        break
-      case 429:
-        this.logWarn('Rate limited by server - backing off')
-        break
-      default:
-        if (status >= 500) {
-          this.logError(`Server error: ${status} - ${body}`)
-        } else {
-          this.logError(`Unexpected response: ${status} - ${body}`)
-        }
+  private forward(payload: NoticePayload): void {
+    try {
+      postNotice(this.config.postMessageTarget!, payload)
+      this.log('Notice posted to page')
+    } catch (e) {
+      this.logError(`Failed to post notice: ${e}`)
     }
+  }
 
-    return null
+  private isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false
   }
 
   private log(message: string): void {
@@ -169,3 +429,7 @@ export class Client {
     console.error(`[Checkend] ${message}`)
   }
 }
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
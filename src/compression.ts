@@ -0,0 +1,25 @@
+/**
+ * Gzip request bodies with CompressionStream, where the runtime has it
+ */
+
+/**
+ * Check if CompressionStream is available
+ */
+export function canCompress(): boolean {
+  return typeof CompressionStream !== 'undefined'
+}
+
+/**
+ * Gzip a string body
+ */
+export async function gzip(body: string): Promise<ArrayBuffer> {
+  const stream = new CompressionStream('gzip')
+  const writer = stream.writable.getWriter()
+
+  // Read while writing, or a large body stalls on backpressure
+  const [, buffer] = await Promise.all([
+    writer.write(new TextEncoder().encode(body)).then(() => writer.close()),
+    new Response(stream.readable).arrayBuffer(),
+  ])
+  return buffer
+}
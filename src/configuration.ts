@@ -1,4 +1,13 @@
-import type { ConfigOptions, BeforeNotifyCallback } from './types'
+import { getGlobalScope } from './global'
+import type { MessageTarget } from './bridge'
+import type {
+  ConfigOptions,
+  BeforeNotifyCallback,
+  AfterNotifyCallback,
+  SamplerCallback,
+  IntegrationsOption,
+  Transport,
+} from './types'
 
 const DEFAULT_ENDPOINT = 'https://app.checkend.io'
 
@@ -43,12 +52,42 @@ export class Configuration {
   timeout: number
   ignoredExceptions: (string | RegExp)[]
   filterKeys: string[]
+  scrubValues: boolean
+  scrubPatterns: RegExp[]
   beforeNotify: BeforeNotifyCallback[]
+  beforeNotifyTimeout: number
+  afterNotify: AfterNotifyCallback[]
   debug: boolean
   captureUnhandled: boolean
   captureUnhandledRejections: boolean
+  captureResourceErrors: boolean
+  integrations: IntegrationsOption
+  captureNetworkErrors: boolean
+  networkErrorStatuses: (number | [number, number])[]
+  networkAllowUrls: (string | RegExp)[]
+  networkDenyUrls: (string | RegExp)[]
+  maxPayloadSize: number
   maxQueueSize: number
+  compress: boolean
+  batch: boolean
+  batchInterval: number
+  batchMaxSize: number
+  batchMaxBytes: number
+  maxAttempts: number
+  maxBackoff: number
   useSendBeacon: boolean
+  maxBreadcrumbs: number
+  persistQueue: boolean
+  persistMaxBytes: number
+  persistMaxAge: number
+  sampleRate: number
+  sampler: SamplerCallback | null
+  maxNoticesPerPageLoad: number
+  maxNoticesPerMinute: number
+  dedupeWindow: number
+  postMessageTarget: MessageTarget | null
+  tunnel: string | null
+  transport: Transport | null
 
   constructor(options: ConfigOptions) {
     this.apiKey = options.apiKey
@@ -64,12 +103,42 @@ export class Configuration {
       ...DEFAULT_FILTER_KEYS,
       ...(options.filterKeys ?? []),
     ]
+    this.scrubValues = options.scrubValues ?? true
+    this.scrubPatterns = options.scrubPatterns ?? []
     this.beforeNotify = options.beforeNotify ?? []
+    this.beforeNotifyTimeout = options.beforeNotifyTimeout ?? 1000
+    this.afterNotify = options.afterNotify ?? []
     this.debug = options.debug ?? false
     this.captureUnhandled = options.captureUnhandled ?? true
     this.captureUnhandledRejections = options.captureUnhandledRejections ?? true
+    this.captureResourceErrors = options.captureResourceErrors ?? false
+    this.integrations = options.integrations ?? []
+    this.captureNetworkErrors = options.captureNetworkErrors ?? false
+    this.networkErrorStatuses = options.networkErrorStatuses ?? [[500, 599]]
+    this.networkAllowUrls = options.networkAllowUrls ?? []
+    this.networkDenyUrls = options.networkDenyUrls ?? []
+    this.maxPayloadSize = options.maxPayloadSize ?? 64000
     this.maxQueueSize = options.maxQueueSize ?? 100
+    this.compress = options.compress ?? false
+    this.batch = options.batch ?? false
+    this.batchInterval = options.batchInterval ?? 1000
+    this.batchMaxSize = Math.max(1, options.batchMaxSize ?? 20)
+    this.batchMaxBytes = options.batchMaxBytes ?? 256000
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 3)
+    this.maxBackoff = options.maxBackoff ?? 30000
     this.useSendBeacon = options.useSendBeacon ?? true
+    this.maxBreadcrumbs = options.maxBreadcrumbs ?? 30
+    this.persistQueue = options.persistQueue ?? false
+    this.persistMaxBytes = options.persistMaxBytes ?? 512000
+    this.persistMaxAge = options.persistMaxAge ?? 24 * 60 * 60 * 1000
+    this.sampleRate = Math.min(1, Math.max(0, options.sampleRate ?? 1))
+    this.sampler = options.sampler ?? null
+    this.maxNoticesPerPageLoad = options.maxNoticesPerPageLoad ?? Infinity
+    this.maxNoticesPerMinute = options.maxNoticesPerMinute ?? Infinity
+    this.dedupeWindow = options.dedupeWindow ?? 5000
+    this.postMessageTarget = options.postMessageTarget ?? null
+    this.tunnel = options.tunnel ?? null
+    this.transport = options.transport ?? null
   }
 
   /**
@@ -115,10 +184,22 @@ export class Configuration {
     return `${this.endpoint}/ingest/v1/errors`
   }
 
+  /**
+   * Check if a URL points at the Checkend ingestion API or the tunnel
+   */
+  isIngestUrl(url: string): boolean {
+    if (url.startsWith(this.ingestUrl)) return true
+    if (!this.tunnel) return false
+
+    // Requests may report the tunnel as given or resolved against the page
+    return url.startsWith(this.tunnel) || url.startsWith(resolveUrl(this.tunnel))
+  }
+
   private detectEnvironment(): string {
     // Check for common environment indicators
-    if (typeof window !== 'undefined') {
-      const hostname = window.location?.hostname ?? ''
+    const scope = getGlobalScope()
+    if (scope) {
+      const hostname = scope.location?.hostname ?? ''
 
       if (hostname === 'localhost' || hostname === '127.0.0.1') {
         return 'development'
@@ -135,3 +216,11 @@ export class Configuration {
     return ['production', 'staging'].includes(this.environment)
   }
 }
+
+function resolveUrl(url: string): string {
+  try {
+    return new URL(url, getGlobalScope()?.location?.href).href
+  } catch {
+    return url
+  }
+}
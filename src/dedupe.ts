@@ -0,0 +1,102 @@
+import type { Notice } from './types'
+
+const KEY_FRAMES = 3
+
+interface Entry {
+  notice: Notice
+  repeats: number
+  lastOccurredAt: string
+  timer: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Deduplicator suppresses repeats of the same error within a time window.
+ *
+ * The first occurrence is sent as usual. Repeats within the window are only
+ * counted; when the window closes, one follow-up notice carrying the repeat
+ * count is sent through onFollowUp.
+ */
+export class Deduplicator {
+  private window: number
+  private onFollowUp: (notice: Notice) => void
+  private entries = new Map<string, Entry>()
+
+  constructor(window: number, onFollowUp: (notice: Notice) => void) {
+    this.window = window
+    this.onFollowUp = onFollowUp
+  }
+
+  /**
+   * Return true if the notice repeats one recorded within the window.
+   * Repeats are counted for the follow-up notice.
+   */
+  isDuplicate(notice: Notice): boolean {
+    const entry = this.entries.get(dedupeKey(notice))
+    if (!entry) return false
+
+    entry.repeats++
+    entry.lastOccurredAt = notice.occurredAt
+    return true
+  }
+
+  /**
+   * Start a window for a notice that is being sent
+   */
+  record(notice: Notice): void {
+    if (this.window <= 0) return
+
+    const key = dedupeKey(notice)
+    const timer = setTimeout(() => this.close(key), this.window)
+    this.entries.set(key, { notice, repeats: 0, lastOccurredAt: notice.occurredAt, timer })
+  }
+
+  /**
+   * Close all open windows, sending follow-ups for counted repeats
+   */
+  flush(): void {
+    for (const key of Array.from(this.entries.keys())) {
+      this.close(key)
+    }
+  }
+
+  /**
+   * Discard all open windows without sending follow-ups
+   */
+  clear(): void {
+    for (const entry of this.entries.values()) {
+      clearTimeout(entry.timer)
+    }
+    this.entries.clear()
+  }
+
+  private close(key: string): void {
+    const entry = this.entries.get(key)
+    if (!entry) return
+
+    clearTimeout(entry.timer)
+    this.entries.delete(key)
+
+    if (entry.repeats > 0) {
+      const followUp: Notice = { ...entry.notice, occurredAt: entry.lastOccurredAt, occurrences: entry.repeats }
+      // The first notice already reported these
+      delete followUp.dropped
+      this.onFollowUp(followUp)
+    }
+  }
+}
+
+/**
+ * Key identifying "the same error": the explicit fingerprint, or the error
+ * class, message and top stack frames
+ */
+export function dedupeKey(notice: Notice): string {
+  if (notice.fingerprint) {
+    return `fingerprint:${notice.fingerprint}`
+  }
+
+  const frames = notice.frames
+    .slice(0, KEY_FRAMES)
+    .map((frame) => `${frame.file ?? ''}:${frame.line ?? ''}:${frame.column ?? ''}`)
+
+  return [notice.errorClass, notice.message, ...frames].join('|')
+}
@@ -1,25 +1,131 @@
+import { serialize } from '../serialize'
+import type { StackFrame } from '../types'
+
 const FILTERED = '[FILTERED]'
 const TRUNCATE_LIMIT = 10000
 const MAX_DEPTH = 10
 
+/**
+ * Value scrubbing settings. The configuration turns scrubValues on by default;
+ * a bare SanitizeFilter leaves it off.
+ */
+export interface ScrubOptions {
+  /** Scrub the built-in detectors' matches from values */
+  scrubValues?: boolean
+  /** More patterns to scrub */
+  scrubPatterns?: RegExp[]
+}
+
+interface ValueDetector {
+  pattern: RegExp
+  /** Checks a match the pattern alone can't tell from a false positive */
+  verify?: (match: string) => boolean
+  replacement?: string
+}
+
+const VALUE_DETECTORS: ValueDetector[] = [
+  { pattern: /\bBearer\s+[\w\-.~+/]+=*/gi, replacement: `Bearer ${FILTERED}` },
+  { pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g },
+  // Parts are bounded at the lengths email allows, so long strings without one scan in linear time
+  { pattern: /[\w.%+-]{1,64}@[a-z\d-]{1,63}(?:\.[a-z\d-]{1,63})*\.[a-z]{2,63}/gi },
+  { pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z\d]{4}){2,7}(?: ?[A-Z\d]{1,4})?\b/g, verify: isIban },
+  // Card numbers start with 2-6, which leaves out most timestamps and IDs
+  { pattern: /\b[2-6](?:[ -]?\d){12,18}\b/g, verify: passesLuhn },
+]
+
+// Neither a scheme nor a protocol-relative host
+const RELATIVE_URL_PATTERN = /^(?![a-z][\w+.-]*:|\/\/)/i
+
+// A URL in a stack line, followed by its line and column
+const STACK_URL_PATTERN = /\b([a-z][\w+.-]*:\/\/[^\s()]+?)((?::\d+){0,2})(?=[\s)]|$)/gi
+
 /**
  * SanitizeFilter scrubs sensitive data from objects before sending.
  */
 export class SanitizeFilter {
   private filterPattern: RegExp
+  private detectors: ValueDetector[]
 
-  constructor(filterKeys: string[]) {
+  constructor(filterKeys: string[], options: ScrubOptions = {}) {
     this.filterPattern = this.buildPattern(filterKeys)
+    this.detectors = [
+      ...(options.scrubValues ? VALUE_DETECTORS : []),
+      ...(options.scrubPatterns ?? []).map((pattern) => ({ pattern: globalPattern(pattern) })),
+    ]
+  }
+
+  /**
+   * Sanitize an object, scrubbing sensitive keys and, unless scrubValues is
+   * false, sensitive values. Works on a serialized copy, so cycles, DOM nodes
+   * and the like are safe to pass.
+   */
+  sanitize<T>(data: T, scrubValues = true): T {
+    return this.process(serialize(data, MAX_DEPTH), 0, scrubValues) as T
+  }
+
+  /**
+   * Replace card numbers, emails, tokens and custom patterns in a string
+   */
+  scrubValue(value: string): string {
+    let result = value
+    for (const { pattern, verify, replacement = FILTERED } of this.detectors) {
+      result = result.replace(pattern, (match) => (!verify || verify(match) ? replacement : match))
+    }
+    return result
+  }
+
+  /**
+   * Scrub an error's message and the URLs in its backtrace and frames
+   */
+  sanitizeError<T extends { message: string; backtrace: string[]; frames?: StackFrame[] }>(error: T): T {
+    const result = {
+      ...error,
+      message: this.scrubValue(error.message),
+      backtrace: error.backtrace.map((line) => this.sanitizeStackLine(line)),
+    }
+    if (error.frames) {
+      result.frames = error.frames.map((frame) => (frame.file ? { ...frame, file: this.sanitizeUrl(frame.file) } : frame))
+    }
+    return result
   }
 
   /**
-   * Sanitize an object, scrubbing sensitive values
+   * Sanitize a URL: strip credentials and scrub sensitive query parameters.
+   * Relative URLs, such as request paths and router paths, stay relative.
    */
-  sanitize<T>(data: T): T {
-    return this.process(this.deepClone(data), 0) as T
+  sanitizeUrl(url: string): string {
+    let parsed: URL
+    try {
+      parsed = new URL(url, typeof location !== 'undefined' ? location.href : undefined)
+    } catch {
+      return url
+    }
+
+    let changed = false
+
+    if (parsed.username || parsed.password) {
+      parsed.username = ''
+      parsed.password = ''
+      changed = true
+    }
+
+    const params = Array.from(parsed.searchParams)
+    const sanitized = params.map(([key, value]) => [key, this.shouldFilter(key) ? FILTERED : this.scrubValue(value)])
+    if (sanitized.some(([, value], i) => value !== params[i][1])) {
+      parsed.search = new URLSearchParams(sanitized).toString()
+      changed = true
+    }
+
+    if (!changed) return url
+    return RELATIVE_URL_PATTERN.test(url) ? parsed.pathname + parsed.search + parsed.hash : parsed.toString()
+  }
+
+  private sanitizeStackLine(line: string): string {
+    const withUrls = line.replace(STACK_URL_PATTERN, (_, url: string, position: string) => this.sanitizeUrl(url) + position)
+    return this.scrubValue(withUrls)
   }
 
-  private process(obj: unknown, depth: number): unknown {
+  private process(obj: unknown, depth: number, scrubValues: boolean): unknown {
     if (depth > MAX_DEPTH) {
       return FILTERED
     }
@@ -29,28 +135,29 @@ export class SanitizeFilter {
     }
 
     if (Array.isArray(obj)) {
-      return obj.map((item) => this.process(item, depth + 1))
+      return obj.map((item) => this.process(item, depth + 1, scrubValues))
     }
 
     if (typeof obj === 'object') {
-      return this.processObject(obj as Record<string, unknown>, depth)
+      return this.processObject(obj as Record<string, unknown>, depth, scrubValues)
     }
 
     if (typeof obj === 'string') {
-      return this.truncateString(obj)
+      const truncated = this.truncateString(obj)
+      return scrubValues ? this.scrubValue(truncated) : truncated
     }
 
     return obj
   }
 
-  private processObject(obj: Record<string, unknown>, depth: number): Record<string, unknown> {
+  private processObject(obj: Record<string, unknown>, depth: number, scrubValues: boolean): Record<string, unknown> {
     const result: Record<string, unknown> = {}
 
     for (const key of Object.keys(obj)) {
       if (this.shouldFilter(key)) {
         result[key] = FILTERED
       } else {
-        result[key] = this.process(obj[key], depth + 1)
+        result[key] = this.process(obj[key], depth + 1, scrubValues)
       }
     }
 
@@ -77,20 +184,44 @@ export class SanitizeFilter {
     }
     return `${str.substring(0, TRUNCATE_LIMIT - 13)}...[TRUNCATED]`
   }
+}
 
-  private deepClone<T>(obj: T): T {
-    if (obj === null || typeof obj !== 'object') {
-      return obj
-    }
+/**
+ * Copy a pattern with the global flag, so replace() finds every match
+ */
+function globalPattern(pattern: RegExp): RegExp {
+  return pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`)
+}
 
-    if (Array.isArray(obj)) {
-      return obj.map((item) => this.deepClone(item)) as T
+/**
+ * The Luhn checksum every card number passes
+ */
+function passesLuhn(match: string): boolean {
+  const digits = match.replace(/\D/g, '')
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
     }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
 
-    const result: Record<string, unknown> = {}
-    for (const key of Object.keys(obj)) {
-      result[key] = this.deepClone((obj as Record<string, unknown>)[key])
-    }
-    return result as T
+/**
+ * The ISO 13616 mod-97 check: move the country code and check digits to the
+ * end, turn letters into numbers (A = 10) and expect a remainder of 1
+ */
+function isIban(match: string): boolean {
+  const iban = match.replace(/ /g, '')
+  if (iban.length < 15 || iban.length > 34) return false
+
+  let remainder = 0
+  for (const char of iban.slice(4) + iban.slice(0, 4)) {
+    const value = parseInt(char, 36)
+    remainder = (value > 9 ? remainder * 100 + value : remainder * 10 + value) % 97
   }
+  return remainder === 1
 }
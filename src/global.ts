@@ -0,0 +1,38 @@
+/**
+ * Global scope detection.
+ *
+ * The SDK runs on a page, where the global scope is `window`, or inside a
+ * dedicated, shared or service worker, where it is `self` and there is no
+ * window or document.
+ */
+
+// Not part of the DOM lib; only defined inside workers
+declare const WorkerGlobalScope: abstract new () => object
+
+/**
+ * The parts of a window or worker global scope the SDK uses
+ */
+export interface GlobalScope extends EventTarget {
+  location?: { href: string; hostname: string }
+}
+
+/**
+ * Check if the SDK is running inside a worker
+ */
+export function isWorkerScope(): boolean {
+  return (
+    typeof window === 'undefined' &&
+    typeof self !== 'undefined' &&
+    typeof WorkerGlobalScope !== 'undefined' &&
+    self instanceof WorkerGlobalScope
+  )
+}
+
+/**
+ * Get the window, or the worker's `self` inside a worker
+ */
+export function getGlobalScope(): GlobalScope | null {
+  if (typeof window !== 'undefined') return window
+  if (isWorkerScope()) return self
+  return null
+}
@@ -1,15 +1,14 @@
-import { Configuration } from './configuration'
-import { Client } from './client'
-import { SanitizeFilter } from './filters/sanitize'
-import { createNotice, createNoticeFromRaw } from './notice'
+import { CheckendClient } from './checkend'
+import type { Scope } from './scope'
+import type { MessageSource } from './bridge'
 import type {
   ConfigOptions,
-  Notice,
   NotifyOptions,
   Context,
   User,
-  RequestInfo,
   ApiResponse,
+  Breadcrumb,
+  BreadcrumbInput,
 } from './types'
 
 export type {
@@ -21,79 +20,61 @@ export type {
   RequestInfo,
   ApiResponse,
   BeforeNotifyCallback,
+  BeforeNotifyResult,
+  AfterNotifyCallback,
+  DeliveryResult,
+  Integration,
+  IntegrationsOption,
+  Breadcrumb,
+  BreadcrumbInput,
+  BreadcrumbType,
+  BreadcrumbLevel,
+  StackFrame,
+  ErrorCause,
+  SamplerCallback,
+  DroppedCounts,
+  Transport,
+  TransportResult,
+  BatchTransportResult,
+  TransportOptions,
 } from './types'
+export type { MessageSource, MessageTarget } from './bridge'
 
 export { VERSION } from './version'
+export { Scope } from './scope'
+export { CheckendClient } from './checkend'
+export { GlobalErrors, UnhandledRejections, ResourceErrors } from './integrations'
+export { FetchTransport, XhrTransport, BeaconTransport } from './transports'
 
-// Global state
-let config: Configuration | null = null
-let client: Client | null = null
-let sanitizeFilter: SanitizeFilter | null = null
-let started = false
-let globalContext: Context = {}
-let globalUser: User = {}
-let originalOnError: OnErrorEventHandler | null = null
-let originalOnUnhandledRejection: ((event: PromiseRejectionEvent) => void) | null = null
+// The instance behind the module-level API
+const defaultClient = new CheckendClient()
 
 /**
- * Configure the Checkend Browser SDK
+ * Get the client instance used by the module-level API
  */
-export function configure(options: ConfigOptions): void {
-  config = new Configuration(options)
-
-  if (!config.isValid()) {
-    console.warn('[Checkend] Invalid configuration: apiKey is required')
-    return
-  }
-
-  client = new Client(config)
-  sanitizeFilter = new SanitizeFilter(config.filterKeys)
-
-  start()
+export function getDefaultClient(): CheckendClient {
+  return defaultClient
 }
 
 /**
- * Start the SDK (install error handlers)
+ * Configure the Checkend Browser SDK
  */
-function start(): void {
-  if (started || !config) return
-
-  started = true
-
-  if (config.captureUnhandled) {
-    installErrorHandler()
-  }
-
-  if (config.captureUnhandledRejections) {
-    installRejectionHandler()
-  }
-
-  log(`Started (environment: ${config.environment})`)
+export function configure(options: ConfigOptions): void {
+  defaultClient.configure(options)
 }
 
 /**
  * Stop the SDK and clean up
  */
 export function stop(): void {
-  if (!started) return
-
-  uninstallErrorHandler()
-  uninstallRejectionHandler()
-
-  started = false
-  log('Stopped')
+  defaultClient.stop()
 }
 
 /**
  * Reset all SDK state
  */
 export function reset(): void {
-  stop()
-  config = null
-  client = null
-  sanitizeFilter = null
-  globalContext = {}
-  globalUser = {}
+  defaultClient.reset()
 }
 
 // ========== Primary API ==========
@@ -102,295 +83,111 @@ export function reset(): void {
  * Report an error to Checkend
  */
 export function notify(error: Error, options: NotifyOptions = {}): void {
-  if (!shouldNotify()) return
-
-  const errorClass = error.name || 'Error'
-  const message = error.message || 'Unknown error'
-
-  if (config!.shouldIgnore(errorClass, message)) {
-    log(`Ignoring error: ${errorClass}`)
-    return
-  }
-
-  const mergedContext = sanitize({ ...globalContext, ...options.context })
-  const mergedUser = sanitize({ ...globalUser, ...options.user })
-  const request = sanitize(options.request ?? captureRequestInfo())
-
-  const notice = createNotice(error, {
-    context: mergedContext,
-    request,
-    user: mergedUser,
-    fingerprint: options.fingerprint,
-    tags: options.tags,
-    environment: config!.environment,
-  })
-
-  if (!runBeforeNotifyCallbacks(notice)) {
-    return
-  }
-
-  client!.queueNotice(notice)
+  defaultClient.notify(error, options)
 }
 
 /**
  * Report an error synchronously (returns promise)
  */
-export async function notifySync(error: Error, options: NotifyOptions = {}): Promise<ApiResponse | null> {
-  if (!shouldNotify()) return null
-
-  const mergedContext = sanitize({ ...globalContext, ...options.context })
-  const mergedUser = sanitize({ ...globalUser, ...options.user })
-  const request = sanitize(options.request ?? captureRequestInfo())
-
-  const notice = createNotice(error, {
-    context: mergedContext,
-    request,
-    user: mergedUser,
-    fingerprint: options.fingerprint,
-    tags: options.tags,
-    environment: config!.environment,
-  })
-
-  if (!runBeforeNotifyCallbacks(notice)) {
-    return null
-  }
-
-  return client!.sendNotice(notice)
+export function notifySync(error: Error, options: NotifyOptions = {}): Promise<ApiResponse | null> {
+  return defaultClient.notifySync(error, options)
 }
 
 /**
  * Flush all pending notices
  */
-export async function flush(): Promise<void> {
-  if (client) {
-    await client.flush()
-  }
+export function flush(): Promise<void> {
+  return defaultClient.flush()
+}
+
+/**
+ * Send notices posted by a worker configured with postMessageTarget
+ */
+export function listenToWorker(source: MessageSource): () => void {
+  return defaultClient.listenToWorker(source)
 }
 
 // ========== Context Management ==========
 
 /**
- * Set context data that will be included with all errors
+ * Set context data that will be included with errors reported from the active scope
  */
 export function setContext(context: Context): void {
-  globalContext = { ...globalContext, ...context }
+  defaultClient.setContext(context)
 }
 
 /**
- * Set user information for error tracking
+ * Set user information for error tracking on the active scope
  */
 export function setUser(user: User): void {
-  globalUser = { ...globalUser, ...user }
+  defaultClient.setUser(user)
 }
 
 /**
- * Get the current context
+ * Get the context of the active scope
  */
 export function getContext(): Context {
-  return { ...globalContext }
+  return defaultClient.getContext()
 }
 
 /**
- * Get the current user
+ * Get the user of the active scope
  */
 export function getUser(): User {
-  return { ...globalUser }
+  return defaultClient.getUser()
 }
 
 /**
- * Clear all context and user data
+ * Record a breadcrumb that will be attached to subsequent errors
  */
-export function clear(): void {
-  globalContext = {}
-  globalUser = {}
-}
-
-// ========== Error Handlers ==========
-
-function installErrorHandler(): void {
-  if (typeof window === 'undefined') return
-
-  originalOnError = window.onerror
-
-  window.onerror = function (
-    message: string | Event,
-    source?: string,
-    lineno?: number,
-    colno?: number,
-    error?: Error
-  ): boolean {
-    const messageStr = typeof message === 'string' ? message : message.toString()
-
-    handleUnhandledError(messageStr, source, lineno, colno, error)
-
-    // Call original handler if it exists
-    if (originalOnError) {
-      return originalOnError.call(window, message, source, lineno, colno, error) as boolean
-    }
-
-    return false
-  }
-}
-
-function uninstallErrorHandler(): void {
-  if (typeof window === 'undefined') return
-
-  if (originalOnError !== null) {
-    window.onerror = originalOnError
-    originalOnError = null
-  }
+export function addBreadcrumb(breadcrumb: BreadcrumbInput): void {
+  defaultClient.addBreadcrumb(breadcrumb)
 }
 
-function installRejectionHandler(): void {
-  if (typeof window === 'undefined') return
-
-  originalOnUnhandledRejection = window.onunhandledrejection as ((event: PromiseRejectionEvent) => void) | null
-
-  window.onunhandledrejection = function (event: PromiseRejectionEvent): void {
-    handleUnhandledRejection(event)
-
-    // Call original handler if it exists
-    if (originalOnUnhandledRejection) {
-      originalOnUnhandledRejection.call(window, event)
-    }
-  }
-}
-
-function uninstallRejectionHandler(): void {
-  if (typeof window === 'undefined') return
-
-  if (originalOnUnhandledRejection !== null) {
-    window.onunhandledrejection = originalOnUnhandledRejection
-    originalOnUnhandledRejection = null
-  }
-}
-
-function handleUnhandledError(
-  message: string,
-  source?: string,
-  lineno?: number,
-  colno?: number,
-  error?: Error
-): void {
-  if (!shouldNotify()) return
-
-  if (config!.shouldIgnore(error?.name ?? 'Error', message)) {
-    return
-  }
-
-  const request = sanitize(captureRequestInfo())
-  const context = sanitize({ ...globalContext, unhandled: true })
-  const user = sanitize(globalUser)
-
-  const notice = createNoticeFromRaw(message, source, lineno, colno, error, {
-    context,
-    request,
-    user,
-    tags: ['unhandled'],
-    environment: config!.environment,
-  })
-
-  if (!runBeforeNotifyCallbacks(notice)) {
-    return
-  }
-
-  client!.queueNotice(notice)
-}
-
-function handleUnhandledRejection(event: PromiseRejectionEvent): void {
-  if (!shouldNotify()) return
-
-  let error: Error
-  const reason = event.reason
-
-  if (reason instanceof Error) {
-    error = reason
-  } else if (typeof reason === 'string') {
-    error = new Error(reason)
-    error.name = 'UnhandledRejection'
-  } else {
-    error = new Error('Unhandled Promise rejection')
-    error.name = 'UnhandledRejection'
-  }
-
-  if (config!.shouldIgnore(error.name, error.message)) {
-    return
-  }
-
-  const request = sanitize(captureRequestInfo())
-  const context = sanitize({ ...globalContext, unhandled: true, rejection: true })
-  const user = sanitize(globalUser)
-
-  const notice = createNotice(error, {
-    context,
-    request,
-    user,
-    tags: ['unhandled', 'promise-rejection'],
-    environment: config!.environment,
-  })
-
-  if (!runBeforeNotifyCallbacks(notice)) {
-    return
-  }
-
-  client!.queueNotice(notice)
+/**
+ * Get the recorded breadcrumbs, oldest first
+ */
+export function getBreadcrumbs(): Breadcrumb[] {
+  return defaultClient.getBreadcrumbs()
 }
 
-// ========== Helpers ==========
-
-function shouldNotify(): boolean {
-  if (!started || !config || !client) return false
-  if (!config.isValid()) return false
-  if (!config.enabled) return false
-  return true
+/**
+ * Clear all context and user data set on the active scope
+ */
+export function clear(): void {
+  defaultClient.clear()
 }
 
-function runBeforeNotifyCallbacks(notice: Notice): boolean {
-  if (!config) return true
-
-  for (const callback of config.beforeNotify) {
-    try {
-      const result = callback(notice)
-      if (result === false) {
-        log('Notice blocked by beforeNotify callback')
-        return false
-      }
-    } catch (e) {
-      logWarn(`beforeNotify callback failed: ${e}`)
-    }
-  }
-
-  return true
-}
+// ========== Scopes ==========
 
-function sanitize<T>(data: T): T {
-  if (!sanitizeFilter) return data
-  return sanitizeFilter.sanitize(data)
+/**
+ * Run a callback in a new scope forked from the active one.
+ * The scope is removed as soon as the callback returns, so an async callback
+ * should pass it to notify() as `scope` after an await.
+ */
+export function withScope<T>(callback: (scope: Scope) => T): T {
+  return defaultClient.withScope(callback)
 }
 
-function captureRequestInfo(): RequestInfo {
-  if (typeof window === 'undefined') return {}
-
-  return {
-    url: window.location?.href,
-    userAgent: navigator?.userAgent,
-    referrer: document?.referrer,
-    language: navigator?.language,
-    viewport: {
-      width: window.innerWidth,
-      height: window.innerHeight,
-    },
-  }
+/**
+ * Fork the active scope and make the fork active
+ */
+export function pushScope(): Scope {
+  return defaultClient.pushScope()
 }
 
-function log(message: string): void {
-  if (config?.debug) {
-    console.log(`[Checkend] ${message}`)
-  }
+/**
+ * Remove the active scope, restoring the one below it. The global scope is never removed.
+ */
+export function popScope(): void {
+  defaultClient.popScope()
 }
 
-function logWarn(message: string): void {
-  console.warn(`[Checkend] ${message}`)
+/**
+ * Get the active scope
+ */
+export function getCurrentScope(): Scope {
+  return defaultClient.getCurrentScope()
 }
 
 // Default export for convenience
@@ -401,9 +198,17 @@ export default {
   notify,
   notifySync,
   flush,
+  listenToWorker,
   setContext,
   setUser,
   getContext,
   getUser,
+  addBreadcrumb,
+  getBreadcrumbs,
   clear,
+  withScope,
+  pushScope,
+  popScope,
+  getCurrentScope,
+  getDefaultClient,
 }
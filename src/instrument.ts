@@ -0,0 +1,278 @@
+/**
+ * Shared browser instrumentation.
+ *
+ * Global APIs (fetch, XMLHttpRequest, console, history, DOM clicks) are patched
+ * once, when the first handler for that event type is added, and restored when
+ * the last handler is removed. Handlers must never throw into the host page.
+ */
+
+export type ConsoleLevel = 'debug' | 'info' | 'log' | 'warn' | 'error'
+
+export interface RequestEvent {
+  transport: 'fetch' | 'xhr'
+  method: string
+  url: string
+  /** HTTP status, or 0 when the request failed before a response arrived */
+  status: number
+  /** Duration in milliseconds */
+  duration: number
+  /** True when the request was cancelled by the page */
+  aborted?: boolean
+  error?: unknown
+}
+
+export interface ConsoleEvent {
+  level: ConsoleLevel
+  args: unknown[]
+}
+
+export interface NavigationEvent {
+  from: string
+  to: string
+}
+
+export interface ClickEvent {
+  target: EventTarget | null
+}
+
+interface InstrumentationEvents {
+  request: RequestEvent
+  console: ConsoleEvent
+  navigation: NavigationEvent
+  click: ClickEvent
+}
+
+export type InstrumentationType = keyof InstrumentationEvents
+
+type Handler<K extends InstrumentationType> = (event: InstrumentationEvents[K]) => void
+
+const handlers: { [K in InstrumentationType]: Set<Handler<K>> } = {
+  request: new Set(),
+  console: new Set(),
+  navigation: new Set(),
+  click: new Set(),
+}
+
+const installers: Record<InstrumentationType, { install: () => void; uninstall: () => void }> = {
+  request: { install: installRequest, uninstall: uninstallRequest },
+  console: { install: installConsole, uninstall: uninstallConsole },
+  navigation: { install: installNavigation, uninstall: uninstallNavigation },
+  click: { install: installClick, uninstall: uninstallClick },
+}
+
+/**
+ * Subscribe to an instrumentation event. Returns a function that removes the handler.
+ */
+export function addInstrumentationHandler<K extends InstrumentationType>(
+  type: K,
+  handler: Handler<K>
+): () => void {
+  const set = handlers[type] as Set<Handler<K>>
+
+  if (set.size === 0) {
+    installers[type].install()
+  }
+  set.add(handler)
+
+  return () => {
+    if (!set.delete(handler)) return
+    if (set.size === 0) {
+      installers[type].uninstall()
+    }
+  }
+}
+
+function emit<K extends InstrumentationType>(type: K, event: InstrumentationEvents[K]): void {
+  for (const handler of handlers[type] as Set<Handler<K>>) {
+    try {
+      handler(event)
+    } catch {
+      // Instrumentation must never break the host page
+    }
+  }
+}
+
+// ========== fetch / XMLHttpRequest ==========
+
+let originalFetch: typeof fetch | null = null
+let wrappedFetch: typeof fetch | null = null
+let originalXhrOpen: XMLHttpRequest['open'] | null = null
+let originalXhrSend: XMLHttpRequest['send'] | null = null
+const xhrRequests = new WeakMap<XMLHttpRequest, { method: string; url: string }>()
+
+function installRequest(): void {
+  if (typeof globalThis.fetch === 'function') {
+    const original = globalThis.fetch
+    originalFetch = original
+
+    wrappedFetch = function (input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+      const method = (init?.method ?? (isRequest(input) ? input.method : 'GET')).toUpperCase()
+      const url = isRequest(input) ? input.url : String(input)
+      const start = Date.now()
+
+      return original.call(globalThis, input, init).then(
+        (response) => {
+          emit('request', { transport: 'fetch', method, url, status: response.status, duration: Date.now() - start })
+          return response
+        },
+        (error: unknown) => {
+          const aborted = error instanceof Error && error.name === 'AbortError'
+          emit('request', { transport: 'fetch', method, url, status: 0, duration: Date.now() - start, aborted, error })
+          throw error
+        }
+      )
+    } as typeof fetch
+
+    globalThis.fetch = wrappedFetch
+  }
+
+  if (typeof XMLHttpRequest !== 'undefined') {
+    const proto = XMLHttpRequest.prototype
+    const open = proto.open
+    const send = proto.send
+    originalXhrOpen = open
+    originalXhrSend = send
+
+    proto.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]): void {
+      xhrRequests.set(this, { method: method.toUpperCase(), url: String(url) })
+      return (open as (...args: unknown[]) => void).call(this, method, url, ...rest)
+    } as XMLHttpRequest['open']
+
+    proto.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null): void {
+      const request = xhrRequests.get(this)
+      if (request) {
+        const start = Date.now()
+        let aborted = false
+        this.addEventListener('abort', () => {
+          aborted = true
+        })
+        this.addEventListener('loadend', () => {
+          emit('request', {
+            transport: 'xhr',
+            method: request.method,
+            url: request.url,
+            status: this.status,
+            duration: Date.now() - start,
+            aborted,
+          })
+        })
+      }
+      return send.call(this, body)
+    }
+  }
+}
+
+function uninstallRequest(): void {
+  // Only restore if nobody has wrapped fetch on top of us
+  if (originalFetch && globalThis.fetch === wrappedFetch) {
+    globalThis.fetch = originalFetch
+  }
+  originalFetch = null
+  wrappedFetch = null
+
+  if (typeof XMLHttpRequest !== 'undefined') {
+    if (originalXhrOpen) XMLHttpRequest.prototype.open = originalXhrOpen
+    if (originalXhrSend) XMLHttpRequest.prototype.send = originalXhrSend
+  }
+  originalXhrOpen = null
+  originalXhrSend = null
+}
+
+function isRequest(input: unknown): input is Request {
+  return typeof Request !== 'undefined' && input instanceof Request
+}
+
+// ========== console ==========
+
+const CONSOLE_LEVELS: ConsoleLevel[] = ['debug', 'info', 'log', 'warn', 'error']
+const originalConsole: Partial<Record<ConsoleLevel, (...args: unknown[]) => void>> = {}
+
+function installConsole(): void {
+  if (typeof console === 'undefined') return
+
+  for (const level of CONSOLE_LEVELS) {
+    const original = console[level]
+    if (typeof original !== 'function') continue
+
+    originalConsole[level] = original
+    console[level] = function (...args: unknown[]): void {
+      emit('console', { level, args })
+      original.apply(console, args)
+    }
+  }
+}
+
+function uninstallConsole(): void {
+  for (const level of CONSOLE_LEVELS) {
+    const original = originalConsole[level]
+    if (original) {
+      console[level] = original
+      delete originalConsole[level]
+    }
+  }
+}
+
+// ========== history ==========
+
+let lastHref: string | undefined
+let originalPushState: History['pushState'] | null = null
+let originalReplaceState: History['replaceState'] | null = null
+
+function installNavigation(): void {
+  if (typeof window === 'undefined' || !window.history) return
+
+  lastHref = window.location?.href
+  originalPushState = window.history.pushState
+  originalReplaceState = window.history.replaceState
+
+  window.history.pushState = wrapHistoryMethod(originalPushState)
+  window.history.replaceState = wrapHistoryMethod(originalReplaceState)
+  window.addEventListener('popstate', onPopState)
+}
+
+function uninstallNavigation(): void {
+  if (typeof window === 'undefined' || !window.history) return
+
+  if (originalPushState) window.history.pushState = originalPushState
+  if (originalReplaceState) window.history.replaceState = originalReplaceState
+  window.removeEventListener('popstate', onPopState)
+
+  originalPushState = null
+  originalReplaceState = null
+}
+
+function wrapHistoryMethod(original: History['pushState']): History['pushState'] {
+  return function (this: History, data: unknown, unused: string, url?: string | URL | null): void {
+    const from = window.location.href
+    original.call(this, data, unused, url)
+    recordNavigation(from)
+  }
+}
+
+function onPopState(): void {
+  recordNavigation(lastHref ?? '')
+}
+
+function recordNavigation(from: string): void {
+  const to = window.location.href
+  lastHref = to
+  if (from !== to) {
+    emit('navigation', { from, to })
+  }
+}
+
+// ========== DOM clicks ==========
+
+function installClick(): void {
+  if (typeof document === 'undefined') return
+  document.addEventListener('click', onClick, true)
+}
+
+function uninstallClick(): void {
+  if (typeof document === 'undefined') return
+  document.removeEventListener('click', onClick, true)
+}
+
+function onClick(event: Event): void {
+  emit('click', { target: event.target })
+}
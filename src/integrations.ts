@@ -0,0 +1,168 @@
+import type { CheckendClient } from './checkend'
+import type { Configuration } from './configuration'
+import { getGlobalScope } from './global'
+import type { GlobalScope } from './global'
+import { serialize, describeValue } from './serialize'
+import { getFailedResource, createResourceLoadError } from './resource'
+import type { Integration, IntegrationsOption } from './types'
+
+/**
+ * Reports uncaught errors from 'error' events on the window or worker scope.
+ * Listening instead of assigning window.onerror leaves that handler to the page.
+ */
+export class GlobalErrors implements Integration {
+  name = 'GlobalErrors'
+  private client: CheckendClient | null = null
+  private scope: GlobalScope | null = null
+
+  setup(client: CheckendClient): void {
+    this.client = client
+    this.scope = getGlobalScope()
+    this.scope?.addEventListener('error', this.handleEvent, true)
+  }
+
+  teardown(): void {
+    this.scope?.removeEventListener('error', this.handleEvent, true)
+    this.scope = null
+    this.client = null
+  }
+
+  private handleEvent = (event: Event): void => {
+    if (!this.client || !this.isScriptError(event)) return
+
+    const { message, filename, lineno, colno, error } = event as ErrorEvent
+    const thrown = error instanceof Error ? error : undefined
+
+    // Keep the event's message and, without an Error, its location
+    this.client.captureNotice(
+      this.client.buildNoticeFromRaw(message ?? 'Unknown error', filename, lineno, colno, thrown, {
+        context: { unhandled: true },
+        tags: ['unhandled'],
+      })
+    )
+  }
+
+  /**
+   * Script errors arrive as ErrorEvents or on the global scope itself. Error
+   * events from elements, such as media that fails to load, are not exceptions,
+   * and resource load errors are ResourceErrors' business.
+   */
+  private isScriptError(event: Event): boolean {
+    const errorEvent = typeof ErrorEvent !== 'undefined' && event instanceof ErrorEvent
+    return (errorEvent || event.target === this.scope) && !getFailedResource(event)
+  }
+}
+
+/**
+ * Reports unhandled promise rejections
+ */
+export class UnhandledRejections implements Integration {
+  name = 'UnhandledRejections'
+  private client: CheckendClient | null = null
+  private scope: GlobalScope | null = null
+
+  setup(client: CheckendClient): void {
+    this.client = client
+    this.scope = getGlobalScope()
+    this.scope?.addEventListener('unhandledrejection', this.handleEvent)
+  }
+
+  teardown(): void {
+    this.scope?.removeEventListener('unhandledrejection', this.handleEvent)
+    this.scope = null
+    this.client = null
+  }
+
+  private handleEvent = (event: Event): void => {
+    if (!this.client) return
+
+    const reason = (event as PromiseRejectionEvent).reason
+    let error: Error
+
+    if (reason instanceof Error) {
+      error = reason
+    } else {
+      error = new Error(reason === undefined ? 'Unhandled Promise rejection' : describeValue(reason))
+      error.name = 'UnhandledRejection'
+    }
+
+    // Keep the reason itself when it isn't an Error
+    const context: Record<string, unknown> = { unhandled: true, rejection: true }
+    if (!(reason instanceof Error) && reason !== undefined) {
+      context.reason = serialize(reason)
+    }
+
+    this.client.captureNotice(
+      this.client.buildNotice(error, {
+        context,
+        tags: ['unhandled', 'promise-rejection'],
+      })
+    )
+  }
+}
+
+/**
+ * Reports <script>, <link> and <img> elements that fail to load.
+ * Load errors don't bubble, so this listens in the capture phase.
+ */
+export class ResourceErrors implements Integration {
+  name = 'ResourceErrors'
+  private client: CheckendClient | null = null
+  private scope: GlobalScope | null = null
+
+  setup(client: CheckendClient): void {
+    this.client = client
+    this.scope = getGlobalScope()
+    this.scope?.addEventListener('error', this.handleEvent, true)
+  }
+
+  teardown(): void {
+    this.scope?.removeEventListener('error', this.handleEvent, true)
+    this.scope = null
+    this.client = null
+  }
+
+  private handleEvent = (event: Event): void => {
+    const resource = getFailedResource(event)
+    if (!this.client || !resource) return
+
+    const url = this.client.sanitizeUrl(resource.url)
+
+    this.client.captureNotice(
+      this.client.buildNotice(createResourceLoadError(resource.tag, url), {
+        context: { resource: { tag: resource.tag, url } },
+        tags: ['resource'],
+      })
+    )
+  }
+}
+
+/**
+ * The integrations a client installs unless told otherwise, from the capture options
+ */
+export function defaultIntegrations(config: Configuration): Integration[] {
+  const integrations: Integration[] = []
+
+  if (config.captureUnhandled) integrations.push(new GlobalErrors())
+  if (config.captureUnhandledRejections) integrations.push(new UnhandledRejections())
+  if (config.captureResourceErrors) integrations.push(new ResourceErrors())
+
+  return integrations
+}
+
+/**
+ * Combine the defaults with the integrations option. An integration in the
+ * array replaces the default of the same name; a function gets the defaults
+ * and returns the full list.
+ */
+export function resolveIntegrations(defaults: Integration[], option: IntegrationsOption): Integration[] {
+  if (typeof option === 'function') {
+    return option(defaults)
+  }
+
+  const byName = new Map<string, Integration>()
+  for (const integration of [...defaults, ...option]) {
+    byName.set(integration.name, integration)
+  }
+  return [...byName.values()]
+}
@@ -0,0 +1,64 @@
+import type { Configuration } from './configuration'
+import { addInstrumentationHandler } from './instrument'
+import type { RequestEvent } from './instrument'
+
+/**
+ * Report failed fetch/XHR requests: network failures, and responses whose
+ * status falls in one of the configured ranges. Returns a function that stops capturing.
+ */
+export function installNetworkErrorCapture(
+  config: Configuration,
+  onError: (event: RequestEvent) => void
+): () => void {
+  return addInstrumentationHandler('request', (event) => {
+    if (shouldCapture(config, event)) {
+      onError(event)
+    }
+  })
+}
+
+/**
+ * Check whether a request event should be reported as an error
+ */
+export function shouldCapture(config: Configuration, event: RequestEvent): boolean {
+  if (event.aborted) return false
+  if (config.isIngestUrl(event.url)) return false
+
+  if (config.networkAllowUrls.length > 0 && !matchesAny(event.url, config.networkAllowUrls)) {
+    return false
+  }
+  if (matchesAny(event.url, config.networkDenyUrls)) {
+    return false
+  }
+
+  // Status 0 means the request never got a response
+  if (event.status === 0) return true
+
+  return config.networkErrorStatuses.some((range) =>
+    typeof range === 'number' ? event.status === range : event.status >= range[0] && event.status <= range[1]
+  )
+}
+
+/**
+ * Build an Error describing a failed request
+ */
+export function createNetworkError(event: RequestEvent, url: string): Error {
+  let error: Error
+
+  if (event.status === 0) {
+    const reason = event.error instanceof Error ? event.error.message : 'Network request failed'
+    error = new Error(`${event.method} ${url} failed: ${reason}`)
+    error.name = 'NetworkError'
+  } else {
+    error = new Error(`${event.method} ${url} responded with ${event.status}`)
+    error.name = 'HTTPError'
+  }
+
+  // The instrumentation stack is meaningless; point at the original failure if there is one
+  error.stack = event.error instanceof Error ? event.error.stack : undefined
+  return error
+}
+
+function matchesAny(url: string, patterns: (string | RegExp)[]): boolean {
+  return patterns.some((pattern) => (typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url)))
+}
@@ -1,8 +1,22 @@
-import type { Notice, Context, RequestInfo, User, NoticePayload, Notifier } from './types'
+import type {
+  Notice,
+  Context,
+  RequestInfo,
+  User,
+  NoticePayload,
+  Notifier,
+  Breadcrumb,
+  StackFrame,
+  ErrorCause,
+} from './types'
+import { parseStackFrames } from './stacktrace'
+import { serialize, describeValue } from './serialize'
 import { VERSION } from './version'
 
 const MAX_BACKTRACE_LINES = 100
 const MAX_MESSAGE_LENGTH = 10000
+const MAX_CAUSE_DEPTH = 5
+const MAX_CAUSES = 10
 
 /**
  * Create a Notice from an Error object
@@ -13,6 +27,7 @@ export function createNotice(
     context?: Context
     request?: RequestInfo
     user?: User
+    breadcrumbs?: Breadcrumb[]
     fingerprint?: string
     tags?: string[]
     environment?: string
@@ -22,18 +37,21 @@ export function createNotice(
     errorClass: error.name || 'Error',
     message: truncateMessage(error.message || 'Unknown error'),
     backtrace: parseBacktrace(error.stack),
+    frames: parseStackFrames(error.stack),
+    causes: collectCauses(error),
     fingerprint: options.fingerprint,
     tags: options.tags ?? [],
     context: options.context ?? {},
     request: options.request ?? {},
     user: options.user ?? {},
+    breadcrumbs: options.breadcrumbs ?? [],
     environment: options.environment,
     occurredAt: new Date().toISOString(),
   }
 }
 
 /**
- * Create a Notice from raw error data (for window.onerror)
+ * Create a Notice from raw error data (for 'error' events)
  */
 export function createNoticeFromRaw(
   message: string,
@@ -45,32 +63,41 @@ export function createNoticeFromRaw(
     context?: Context
     request?: RequestInfo
     user?: User
+    breadcrumbs?: Breadcrumb[]
     fingerprint?: string
     tags?: string[]
     environment?: string
   } = {}
 ): Notice {
   let backtrace: string[] = []
+  let frames: StackFrame[] = []
+  let causes: ErrorCause[] = []
   let errorClass = 'Error'
 
   if (error) {
     backtrace = parseBacktrace(error.stack)
+    frames = parseStackFrames(error.stack)
+    causes = collectCauses(error)
     errorClass = error.name || 'Error'
   } else if (source) {
     // Create a synthetic backtrace from the error location
     const location = `${source}:${lineno ?? 0}:${colno ?? 0}`
     backtrace = [location]
+    frames = [{ file: source, line: lineno, column: colno }]
   }
 
   return {
     errorClass,
     message: truncateMessage(message),
     backtrace,
+    frames,
+    causes,
     fingerprint: options.fingerprint,
     tags: options.tags ?? [],
     context: options.context ?? {},
     request: options.request ?? {},
     user: options.user ?? {},
+    breadcrumbs: options.breadcrumbs ?? [],
     environment: options.environment,
     occurredAt: new Date().toISOString(),
   }
@@ -92,20 +119,101 @@ export function toPayload(notice: Notice): NoticePayload {
       class: notice.errorClass,
       message: notice.message,
       backtrace: notice.backtrace,
+      frames: notice.frames.length > 0 ? notice.frames : undefined,
       occurred_at: notice.occurredAt,
       fingerprint: notice.fingerprint,
       tags: notice.tags.length > 0 ? notice.tags : undefined,
+      occurrences: notice.occurrences,
     },
-    context: {
+    // Callbacks and integrations may have added values JSON can't represent
+    context: serialize({
       ...notice.context,
       ...(notice.environment ? { environment: notice.environment } : {}),
-    },
-    request: notice.request,
-    user: notice.user,
+    }) as Context,
+    request: serialize(notice.request) as RequestInfo,
+    user: serialize(notice.user) as User,
+    breadcrumbs: notice.breadcrumbs.length > 0 ? notice.breadcrumbs : undefined,
+    causes: notice.causes?.length
+      ? notice.causes.map((cause) => ({
+          class: cause.errorClass,
+          message: cause.message,
+          backtrace: cause.backtrace,
+          frames: cause.frames.length > 0 ? cause.frames : undefined,
+        }))
+      : undefined,
+    dropped: notice.dropped
+      ? {
+          sampled: notice.dropped.sampled,
+          page_load_limit: notice.dropped.pageLoadLimit,
+          minute_limit: notice.dropped.minuteLimit,
+        }
+      : undefined,
     notifier,
   }
 }
 
+/**
+ * Collect the errors linked to an error through `cause` and AggregateError's
+ * `errors`, depth first. Stops at MAX_CAUSE_DEPTH levels or MAX_CAUSES errors,
+ * and skips errors already seen so cycles end.
+ */
+export function collectCauses(error: Error): ErrorCause[] {
+  const causes: ErrorCause[] = []
+  const seen = new Set<unknown>([error])
+
+  const visit = (parent: unknown, depth: number): void => {
+    for (const linked of linkedErrors(parent)) {
+      if (causes.length >= MAX_CAUSES) return
+      if (seen.has(linked)) continue
+
+      seen.add(linked)
+      causes.push(describeCause(linked))
+      if (depth < MAX_CAUSE_DEPTH) {
+        visit(linked, depth + 1)
+      }
+    }
+  }
+
+  visit(error, 1)
+  return causes
+}
+
+/**
+ * An AggregateError's errors, then the cause
+ */
+function linkedErrors(value: unknown): unknown[] {
+  if (!(value instanceof Error)) return []
+
+  const linked: unknown[] = []
+  const { errors, cause } = value as Error & { errors?: unknown; cause?: unknown }
+  if (Array.isArray(errors)) {
+    linked.push(...errors)
+  }
+  if (cause !== undefined && cause !== null) {
+    linked.push(cause)
+  }
+  return linked
+}
+
+function describeCause(value: unknown): ErrorCause {
+  if (value instanceof Error) {
+    return {
+      errorClass: value.name || 'Error',
+      message: truncateMessage(value.message),
+      backtrace: parseBacktrace(value.stack),
+      frames: parseStackFrames(value.stack),
+    }
+  }
+
+  // Anything can be a cause, e.g. { cause: { code: 'ECONNRESET' } }
+  return {
+    errorClass: typeof value === 'object' ? value?.constructor?.name || 'Object' : typeof value,
+    message: truncateMessage(describeValue(value)),
+    backtrace: [],
+    frames: [],
+  }
+}
+
 /**
  * Parse a stack trace string into an array of frames
  */
@@ -0,0 +1,210 @@
+import { Component, useMemo, useRef } from 'react'
+import type { ErrorInfo, ReactNode } from 'react'
+import { getDefaultClient } from './index'
+import type { CheckendClient } from './checkend'
+import type { Scope } from './scope'
+import type { Context, User, NotifyOptions } from './types'
+
+/**
+ * Props passed to a fallback render function
+ */
+export interface FallbackProps {
+  error: Error
+  componentStack: string
+  /** Clear the error and render the children again */
+  resetError: () => void
+}
+
+/**
+ * Props for the ErrorBoundary component
+ */
+export interface ErrorBoundaryProps {
+  children?: ReactNode
+  /** Rendered instead of the children after an error */
+  fallback?: ReactNode | ((props: FallbackProps) => ReactNode)
+  /** Extra context sent with errors caught by this boundary */
+  context?: Context
+  /** Extra tags sent with errors caught by this boundary */
+  tags?: string[]
+  fingerprint?: string
+  /** Client to report to (default: the module-level client) */
+  client?: CheckendClient
+  /** Called after an error has been reported */
+  onError?: (error: Error, componentStack: string) => void
+  /** Called when the fallback calls resetError */
+  onReset?: () => void
+}
+
+interface ErrorBoundaryState {
+  error: Error | null
+  componentStack: string
+}
+
+// Errors an ErrorBoundary has caught and reports itself, so onCaughtError
+// can skip them. React calls onCaughtError before componentDidCatch, so
+// they are marked in getDerivedStateFromError.
+const boundaryErrors = new WeakSet<object>()
+
+/**
+ * ErrorBoundary reports render errors to Checkend and renders a fallback.
+ *
+ * @example
+ * import { ErrorBoundary } from '@checkend/browser/react'
+ *
+ * <ErrorBoundary fallback={({ resetError }) => <button onClick={resetError}>Try again</button>}>
+ *   <App />
+ * </ErrorBoundary>
+ */
+export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null, componentStack: '' }
+
+  static getDerivedStateFromError(error: unknown): Partial<ErrorBoundaryState> {
+    if (typeof error === 'object' && error !== null) {
+      boundaryErrors.add(error)
+    }
+    return { error: toError(error) }
+  }
+
+  componentDidCatch(error: unknown, info: ErrorInfo): void {
+    const componentStack = info.componentStack ?? ''
+    const reported = toError(error)
+    const client = this.props.client ?? getDefaultClient()
+
+    client.notify(reported, {
+      context: { ...this.props.context, componentStack },
+      tags: ['react', ...(this.props.tags ?? [])],
+      fingerprint: this.props.fingerprint,
+    })
+
+    this.setState({ componentStack })
+    this.props.onError?.(reported, componentStack)
+  }
+
+  resetError = (): void => {
+    this.setState({ error: null, componentStack: '' })
+    this.props.onReset?.()
+  }
+
+  render(): ReactNode {
+    const { error, componentStack } = this.state
+
+    if (!error) {
+      return this.props.children
+    }
+
+    const { fallback } = this.props
+    if (typeof fallback === 'function') {
+      return fallback({ error, componentStack, resetError: this.resetError })
+    }
+    return fallback ?? null
+  }
+}
+
+/**
+ * Options for useCheckend()
+ */
+export interface UseCheckendOptions {
+  /** Context added to errors reported through this hook */
+  context?: Context
+  /** User added to errors reported through this hook */
+  user?: User
+  /** Client to report to (default: the module-level client) */
+  client?: CheckendClient
+}
+
+/**
+ * Value returned by useCheckend()
+ */
+export interface CheckendHook {
+  /** Scope owned by the calling component, forked from the client's active scope */
+  scope: Scope
+  /** Report an error with the component's scope */
+  notify: (error: Error, options?: NotifyOptions) => void
+}
+
+/**
+ * Give a component its own scope for context and user data, and a notify
+ * function that reports with it.
+ *
+ * @example
+ * const { notify } = useCheckend({ context: { orderId } })
+ * fetchOrder(orderId).catch(notify)
+ */
+export function useCheckend(options: UseCheckendOptions = {}): CheckendHook {
+  const client = options.client ?? getDefaultClient()
+  const scopeRef = useRef<Scope | null>(null)
+
+  if (!scopeRef.current) {
+    scopeRef.current = client.getCurrentScope().fork()
+  }
+  const scope = scopeRef.current
+
+  // Merging is idempotent, so keeping the scope in sync on each render is safe
+  if (options.context) scope.setContext(options.context)
+  if (options.user) scope.setUser(options.user)
+
+  return useMemo(
+    () => ({
+      scope,
+      notify: (error: Error, notifyOptions: NotifyOptions = {}) => client.notify(error, { ...notifyOptions, scope }),
+    }),
+    [client, scope]
+  )
+}
+
+/**
+ * Error details React passes to root error callbacks
+ */
+export interface RootErrorInfo {
+  componentStack?: string
+}
+
+/**
+ * Options for rootErrorHandlers()
+ */
+export interface RootErrorHandlerOptions {
+  /** Client to report to (default: the module-level client) */
+  client?: CheckendClient
+  /** Called after each error has been reported */
+  callback?: (error: unknown, errorInfo: RootErrorInfo) => void
+}
+
+/**
+ * onCaughtError and onUncaughtError callbacks for React 19's createRoot and
+ * hydrateRoot. Caught errors are those handled by an error boundary.
+ *
+ * Errors caught by an <ErrorBoundary> are left to the boundary, which
+ * reports them with its own context and tags. Thrown values that aren't
+ * objects can't be recognized and are reported by both.
+ *
+ * @example
+ * createRoot(container, { ...rootErrorHandlers() }).render(<App />)
+ */
+export function rootErrorHandlers(options: RootErrorHandlerOptions = {}): {
+  onCaughtError: (error: unknown, errorInfo: RootErrorInfo) => void
+  onUncaughtError: (error: unknown, errorInfo: RootErrorInfo) => void
+} {
+  const report = (tags: string[]) => (error: unknown, errorInfo: RootErrorInfo) => {
+    if (!(typeof error === 'object' && error !== null && boundaryErrors.has(error))) {
+      const client = options.client ?? getDefaultClient()
+      client.notify(toError(error), {
+        context: { componentStack: errorInfo.componentStack ?? '' },
+        tags,
+      })
+    }
+    options.callback?.(error, errorInfo)
+  }
+
+  return {
+    onCaughtError: report(['react']),
+    onUncaughtError: report(['react', 'unhandled']),
+  }
+}
+
+function toError(value: unknown): Error {
+  if (value instanceof Error) return value
+
+  const error = new Error(typeof value === 'string' ? value : 'Non-Error value thrown during render')
+  error.name = 'RenderError'
+  return error
+}
@@ -0,0 +1,44 @@
+/**
+ * Failed <script>, <link> and <img> loads.
+ *
+ * Load errors fire on the element and don't bubble, but a capture-phase
+ * 'error' listener on window still sees them. Runtime errors arrive as
+ * ErrorEvents targeting window itself.
+ */
+
+const RESOURCE_TAGS = ['script', 'link', 'img']
+
+/**
+ * The element whose load failed
+ */
+export interface FailedResource {
+  /** Lowercase tag name, e.g. 'script' */
+  tag: string
+  url: string
+}
+
+/**
+ * Get the failed resource an 'error' event is about, or null for runtime errors
+ */
+export function getFailedResource(event: Event): FailedResource | null {
+  const target = event.target
+  if (typeof Element === 'undefined' || !(target instanceof Element)) return null
+
+  const tag = target.tagName.toLowerCase()
+  if (!RESOURCE_TAGS.includes(tag)) return null
+
+  // The src/href properties are resolved against the document URL
+  const url = tag === 'link' ? (target as HTMLLinkElement).href : (target as HTMLScriptElement | HTMLImageElement).src
+  return { tag, url: url || '' }
+}
+
+/**
+ * Build an Error describing a failed resource load
+ */
+export function createResourceLoadError(tag: string, url: string): Error {
+  const error = new Error(`Failed to load <${tag}> ${url}`)
+  error.name = 'ResourceLoadError'
+  // There is no stack to speak of; the failure happened in the browser's loader
+  error.stack = undefined
+  return error
+}
@@ -0,0 +1,96 @@
+import type { Configuration } from './configuration'
+import type { Notice, DroppedCounts } from './types'
+
+const MINUTE = 60 * 1000
+
+/**
+ * Sampler decides which notices are sent, applying sampleRate, the sampler
+ * callback and the per-page-load and per-minute caps.
+ *
+ * Dropped notices are counted and the counts are attached to the next notice
+ * that gets through, so the server can still show the real volume.
+ */
+export class Sampler {
+  private config: Configuration
+  private sentCount = 0
+  private recent: number[] = []
+  private dropped: DroppedCounts = emptyCounts()
+
+  constructor(config: Configuration) {
+    this.config = config
+  }
+
+  /**
+   * Return true if the notice should be sent. Sent notices carry the counts
+   * of notices dropped since the previous one.
+   */
+  sample(notice: Notice): boolean {
+    const rate = this.rateFor(notice)
+    if (rate < 1 && Math.random() >= rate) {
+      this.dropped.sampled++
+      return false
+    }
+
+    return this.withinCaps(notice)
+  }
+
+  /**
+   * Apply only the per-page-load and per-minute caps, for notices that were
+   * already sampled in, such as dedupe follow-ups
+   */
+  withinCaps(notice: Notice): boolean {
+    if (this.sentCount >= this.config.maxNoticesPerPageLoad) {
+      this.dropped.pageLoadLimit++
+      return false
+    }
+
+    const now = Date.now()
+    this.recent = this.recent.filter((time) => now - time < MINUTE)
+    if (this.recent.length >= this.config.maxNoticesPerMinute) {
+      this.dropped.minuteLimit++
+      return false
+    }
+
+    this.sentCount++
+    this.recent.push(now)
+
+    if (this.droppedTotal() > 0) {
+      notice.dropped = this.dropped
+      this.dropped = emptyCounts()
+    }
+
+    return true
+  }
+
+  /**
+   * Counts of notices dropped since the last one sent
+   */
+  getDropped(): DroppedCounts {
+    return { ...this.dropped }
+  }
+
+  private rateFor(notice: Notice): number {
+    let rate = this.config.sampleRate
+
+    if (this.config.sampler) {
+      try {
+        const result = this.config.sampler(notice)
+        if (typeof result === 'number' && !Number.isNaN(result)) {
+          rate = result
+        }
+      } catch {
+        // Fall back to sampleRate
+      }
+    }
+
+    return Math.min(1, Math.max(0, rate))
+  }
+
+  private droppedTotal(): number {
+    return this.dropped.sampled + this.dropped.pageLoadLimit + this.dropped.minuteLimit
+  }
+}
+
+function emptyCounts(): DroppedCounts {
+  return { sampled: 0, pageLoadLimit: 0, minuteLimit: 0 }
+}
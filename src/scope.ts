@@ -0,0 +1,120 @@
+import type { Context, User, BeforeNotifyCallback } from './types'
+
+/**
+ * Scope holds context, user, tags, fingerprint and beforeNotify processors
+ * applied to errors reported while it is active.
+ *
+ * Scopes form a chain: a forked scope starts empty and reads through to its
+ * parent, so values set on an inner scope override the outer ones without
+ * modifying them.
+ */
+export class Scope {
+  private parent: Scope | null
+  private context: Context = {}
+  private user: User = {}
+  private tags: string[] = []
+  private fingerprint: string | undefined
+  private processors: BeforeNotifyCallback[] = []
+
+  constructor(parent: Scope | null = null) {
+    this.parent = parent
+  }
+
+  /**
+   * Create a child scope that inherits from this one
+   */
+  fork(): Scope {
+    return new Scope(this)
+  }
+
+  /**
+   * Merge context data into this scope
+   */
+  setContext(context: Context): this {
+    this.context = { ...this.context, ...context }
+    return this
+  }
+
+  /**
+   * Merge user information into this scope
+   */
+  setUser(user: User): this {
+    this.user = { ...this.user, ...user }
+    return this
+  }
+
+  /**
+   * Add tags to this scope
+   */
+  setTags(tags: string[]): this {
+    for (const tag of tags) {
+      if (!this.tags.includes(tag)) {
+        this.tags.push(tag)
+      }
+    }
+    return this
+  }
+
+  /**
+   * Set the grouping fingerprint for errors reported in this scope
+   */
+  setFingerprint(fingerprint: string | undefined): this {
+    this.fingerprint = fingerprint
+    return this
+  }
+
+  /**
+   * Add a callback that runs before errors in this scope are sent
+   */
+  addBeforeNotify(callback: BeforeNotifyCallback): this {
+    this.processors.push(callback)
+    return this
+  }
+
+  /**
+   * Context merged along the scope chain, innermost values winning
+   */
+  getContext(): Context {
+    return { ...this.parent?.getContext(), ...this.context }
+  }
+
+  /**
+   * User merged along the scope chain, innermost values winning
+   */
+  getUser(): User {
+    return { ...this.parent?.getUser(), ...this.user }
+  }
+
+  /**
+   * Tags from the whole scope chain, outermost first
+   */
+  getTags(): string[] {
+    const tags = this.parent?.getTags() ?? []
+    return [...tags, ...this.tags.filter((tag) => !tags.includes(tag))]
+  }
+
+  /**
+   * Innermost fingerprint set along the scope chain
+   */
+  getFingerprint(): string | undefined {
+    return this.fingerprint ?? this.parent?.getFingerprint()
+  }
+
+  /**
+   * beforeNotify processors from the whole scope chain, outermost first
+   */
+  getBeforeNotify(): BeforeNotifyCallback[] {
+    return [...(this.parent?.getBeforeNotify() ?? []), ...this.processors]
+  }
+
+  /**
+   * Clear everything set on this scope (parents are untouched)
+   */
+  clear(): void {
+    this.context = {}
+    this.user = {}
+    this.tags = []
+    this.fingerprint = undefined
+    this.processors = []
+  }
+}
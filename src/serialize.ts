@@ -0,0 +1,174 @@
+import { describeElement } from './breadcrumbs'
+
+const MAX_DEPTH = 10
+const MAX_DESCRIPTION_LENGTH = 300
+
+/**
+ * Convert any value into plain JSON data: cycles become '[Circular]', DOM nodes,
+ * functions and BigInts become descriptive strings, Dates ISO strings, Maps
+ * objects and Sets arrays. Values nested deeper than maxDepth are cut off.
+ */
+export function serialize(value: unknown, maxDepth = MAX_DEPTH): unknown {
+  return walk(value, maxDepth, new Set())
+}
+
+/**
+ * A short, readable description of any value, for messages
+ */
+export function describeValue(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (value instanceof Error) return `${value.name}: ${value.message}`
+
+  if (isEvent(value)) {
+    const target = value.target ? describeTarget(value.target) : ''
+    return `${className(value)} "${value.type}"${target ? ` on ${target}` : ''}`
+  }
+
+  if (isResponse(value)) {
+    return `Response ${value.status}${value.statusText ? ` ${value.statusText}` : ''}${value.url ? ` from ${value.url}` : ''}`
+  }
+
+  const serialized = serialize(value)
+  if (typeof serialized === 'string') return serialized
+  if (serialized === null || typeof serialized !== 'object') return String(serialized)
+
+  const json = JSON.stringify(serialized)
+  const description = Array.isArray(value) || className(value) === 'Object' ? json : `${className(value)} ${json}`
+  return description.length <= MAX_DESCRIPTION_LENGTH
+    ? description
+    : `${description.substring(0, MAX_DESCRIPTION_LENGTH - 3)}...`
+}
+
+function walk(value: unknown, depth: number, ancestors: Set<object>): unknown {
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+    case 'undefined':
+      return value
+    case 'number':
+      return Number.isFinite(value) ? value : String(value)
+    case 'bigint':
+      return `${value}n`
+    case 'symbol':
+      return value.toString()
+    case 'function':
+      return `[Function${value.name ? `: ${value.name}` : ''}]`
+  }
+
+  if (value === null) return null
+  const object = value as object
+
+  if (object instanceof Date) {
+    return Number.isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString()
+  }
+  if (object instanceof RegExp) return String(object)
+  if (isWindow(object)) return '[Window]'
+  if (isNode(object)) return describeNode(object)
+  if (ArrayBuffer.isView(object)) return `[${className(object)}(${object.byteLength} bytes)]`
+
+  if (ancestors.has(object)) return '[Circular]'
+  if (depth <= 0) return Array.isArray(object) ? '[Array]' : `[${className(object)}]`
+
+  ancestors.add(object)
+  try {
+    return walkObject(object, depth - 1, ancestors)
+  } catch {
+    // e.g. a revoked Proxy
+    return `[${className(object)}]`
+  } finally {
+    ancestors.delete(object)
+  }
+}
+
+function walkObject(object: object, depth: number, ancestors: Set<object>): unknown {
+  const child = (item: unknown): unknown => walk(item, depth, ancestors)
+
+  if (Array.isArray(object)) return object.map(child)
+  if (object instanceof Set) return Array.from(object, child)
+
+  if (object instanceof Map) {
+    const result: Record<string, unknown> = {}
+    for (const [key, item] of object) {
+      result[typeof key === 'string' ? key : describeValue(key)] = child(item)
+    }
+    return result
+  }
+
+  if (object instanceof Error) {
+    return { ...readProperties(object, child), name: object.name, message: object.message }
+  }
+  if (isEvent(object)) {
+    return { type: object.type, target: object.target ? describeTarget(object.target) : null }
+  }
+  if (isResponse(object)) {
+    return { url: object.url, status: object.status, statusText: object.statusText }
+  }
+  if (isRequest(object)) {
+    return { method: object.method, url: object.url }
+  }
+
+  const toJSON = (object as { toJSON?: unknown }).toJSON
+  if (typeof toJSON === 'function') {
+    try {
+      return child(toJSON.call(object))
+    } catch {
+      // Fall through to the properties
+    }
+  }
+
+  const properties = readProperties(object, child)
+  // A class instance with nothing to show is better named than {}
+  if (Object.keys(properties).length === 0 && className(object) !== 'Object') {
+    return `[${className(object)}]`
+  }
+  return properties
+}
+
+function readProperties(object: object, child: (item: unknown) => unknown): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const key of Object.keys(object)) {
+    try {
+      result[key] = child((object as Record<string, unknown>)[key])
+    } catch {
+      // Getters can throw
+      result[key] = '[Unreadable]'
+    }
+  }
+  return result
+}
+
+function className(value: unknown): string {
+  const constructor = (value as { constructor?: { name?: string } } | null)?.constructor
+  return (typeof constructor === 'function' && constructor.name) || 'Object'
+}
+
+function describeTarget(target: EventTarget): string {
+  return isWindow(target) ? 'window' : isNode(target) ? describeNode(target) : className(target)
+}
+
+function describeNode(node: Node): string {
+  if (typeof Element !== 'undefined' && node instanceof Element) {
+    return `[Element: ${describeElement(node)}]`
+  }
+  return `[${className(node)}]`
+}
+
+function isNode(value: unknown): value is Node {
+  return typeof Node !== 'undefined' && value instanceof Node
+}
+
+function isWindow(value: unknown): boolean {
+  return typeof window !== 'undefined' && value === window
+}
+
+function isEvent(value: unknown): value is Event {
+  return typeof Event !== 'undefined' && value instanceof Event
+}
+
+function isResponse(value: unknown): value is Response {
+  return typeof Response !== 'undefined' && value instanceof Response
+}
+
+function isRequest(value: unknown): value is Request {
+  return typeof Request !== 'undefined' && value instanceof Request
+}
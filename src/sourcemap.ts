@@ -0,0 +1,177 @@
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+const BASE64_VALUES: Record<string, number> = {}
+for (let i = 0; i < BASE64_CHARS.length; i++) {
+  BASE64_VALUES[BASE64_CHARS[i]] = i
+}
+
+/**
+ * Source map (revision 3) as stored in a .map file
+ */
+export interface RawSourceMap {
+  version: number
+  file?: string
+  sourceRoot?: string
+  sources: (string | null)[]
+  names?: string[]
+  mappings: string
+  sourcesContent?: (string | null)[]
+}
+
+/**
+ * Position in the original source. Lines and columns are 1-based.
+ */
+export interface OriginalPosition {
+  source: string
+  line: number
+  column: number
+  name?: string
+}
+
+interface Segment {
+  generatedColumn: number
+  source?: number
+  originalLine?: number
+  originalColumn?: number
+  name?: number
+}
+
+/**
+ * SourceMap decodes the mappings of a source map and looks up original positions.
+ */
+export class SourceMap {
+  private raw: RawSourceMap
+  private lines: Segment[][]
+
+  constructor(raw: RawSourceMap) {
+    if (raw.version !== 3) {
+      throw new Error(`Unsupported source map version: ${raw.version}`)
+    }
+    if (typeof raw.mappings !== 'string') {
+      throw new Error('Source map has no mappings (index maps are not supported)')
+    }
+
+    this.raw = raw
+    this.lines = decodeMappings(raw.mappings)
+  }
+
+  /**
+   * Find the original position for a generated position (1-based line and column)
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = this.lines[line - 1]
+    if (!segments || segments.length === 0) return null
+
+    // Last segment starting at or before the column
+    const target = column - 1
+    let low = 0
+    let high = segments.length - 1
+    let found = -1
+
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      if (segments[mid].generatedColumn <= target) {
+        found = mid
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+
+    const segment = segments[found]
+    if (!segment || segment.source === undefined || segment.originalLine === undefined) {
+      return null
+    }
+
+    return {
+      source: this.sourceAt(segment.source),
+      line: segment.originalLine + 1,
+      column: (segment.originalColumn ?? 0) + 1,
+      name: segment.name !== undefined ? this.raw.names?.[segment.name] : undefined,
+    }
+  }
+
+  private sourceAt(index: number): string {
+    const source = this.raw.sources[index] ?? ''
+    const root = this.raw.sourceRoot
+    if (!root || /^[a-z][\w+.-]*:/i.test(source) || source.startsWith('/')) {
+      return source
+    }
+    return root.endsWith('/') ? `${root}${source}` : `${root}/${source}`
+  }
+}
+
+/**
+ * Decode a "mappings" string into segments per generated line
+ */
+export function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = []
+  let source = 0
+  let originalLine = 0
+  let originalColumn = 0
+  let name = 0
+
+  for (const line of mappings.split(';')) {
+    const segments: Segment[] = []
+    let generatedColumn = 0
+
+    for (const encoded of line.split(',')) {
+      if (!encoded) continue
+
+      const fields = decodeVlq(encoded)
+      generatedColumn += fields[0]
+      const segment: Segment = { generatedColumn }
+
+      if (fields.length >= 4) {
+        source += fields[1]
+        originalLine += fields[2]
+        originalColumn += fields[3]
+        segment.source = source
+        segment.originalLine = originalLine
+        segment.originalColumn = originalColumn
+
+        if (fields.length >= 5) {
+          name += fields[4]
+          segment.name = name
+        }
+      }
+
+      segments.push(segment)
+    }
+
+    segments.sort((a, b) => a.generatedColumn - b.generatedColumn)
+    lines.push(segments)
+  }
+
+  return lines
+}
+
+/**
+ * Decode a base64 VLQ segment into its signed integer fields
+ */
+export function decodeVlq(encoded: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let shift = 0
+
+  for (const char of encoded) {
+    const digit = BASE64_VALUES[char]
+    if (digit === undefined) {
+      throw new Error(`Invalid base64 VLQ character: ${char}`)
+    }
+
+    value += (digit & 31) << shift
+
+    if (digit & 32) {
+      shift += 5
+    } else {
+      const negative = value & 1
+      value >>>= 1
+      values.push(negative ? -value : value)
+      value = 0
+      shift = 0
+    }
+  }
+
+  return values
+}
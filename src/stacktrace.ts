@@ -0,0 +1,135 @@
+import type { StackFrame } from './types'
+
+const MAX_FRAMES = 100
+
+// V8 (Chrome, Edge, Node): "    at fn (url:line:col)" or "    at url:line:col"
+const V8_FRAME = /^\s*at (?:(.+?) \()?(.+?)(?::(\d+))?(?::(\d+))?\)?\s*$/
+// V8 eval location: "eval at fn (url:line:col), <anonymous>:line:col"
+const V8_EVAL = /^eval at .*?\(?((?:[a-z][\w+.-]*:\/\/|\/)[^\s()]*?):(\d+):(\d+)\)?/i
+
+// SpiderMonkey (Firefox) and JavaScriptCore (Safari): "fn@url:line:col"
+const GECKO_FRAME = /^\s*(.*?)@(.*?)(?::(\d+))?(?::(\d+))?\s*$/
+// SpiderMonkey eval location: "url line 12 > eval" or "url line 12 > Function"
+const GECKO_EVAL = /^(.*?) line (\d+) > (?:eval|Function)/
+
+// Locations that don't point at a script file
+const NON_FILE_LOCATIONS = ['native', '<anonymous>', '[native code]']
+
+/**
+ * Parse a stack trace from any major engine into structured frames
+ */
+export function parseStackFrames(stack?: string): StackFrame[] {
+  if (!stack) {
+    return []
+  }
+
+  const frames: StackFrame[] = []
+
+  for (const line of stack.split('\n')) {
+    const frame = parseStackLine(line)
+    if (frame) {
+      frames.push(frame)
+      if (frames.length >= MAX_FRAMES) break
+    }
+  }
+
+  return frames
+}
+
+/**
+ * Parse a single stack trace line, or return null if it isn't a frame
+ */
+export function parseStackLine(line: string): StackFrame | null {
+  const trimmed = line.trim()
+  if (!trimmed) return null
+
+  if (trimmed.startsWith('at ')) {
+    return parseV8Line(trimmed)
+  }
+
+  if (trimmed.includes('@')) {
+    return parseGeckoLine(trimmed)
+  }
+
+  return null
+}
+
+/**
+ * Format a frame back into a V8-style backtrace line
+ */
+export function formatStackFrame(frame: StackFrame): string {
+  const location = [frame.file ?? '<anonymous>', frame.line, frame.column]
+    .filter((part) => part !== undefined)
+    .join(':')
+
+  return frame.function ? `at ${frame.function} (${location})` : `at ${location}`
+}
+
+function parseV8Line(line: string): StackFrame | null {
+  const match = V8_FRAME.exec(line)
+  if (!match) return null
+
+  const fn = match[1]
+  let location = match[2]
+  let lineNo: string | undefined = match[3]
+  let column: string | undefined = match[4]
+
+  // Guard against message text that happens to start with "at "
+  if (!fn && !lineNo && location !== '<anonymous>') return null
+
+  // "at fn (eval at outer (url:l:c), <anonymous>:l:c)" - report the script that called eval
+  const evalMatch = V8_EVAL.exec(location)
+  if (evalMatch) {
+    ;[, location, lineNo, column] = evalMatch
+  }
+
+  return buildFrame(cleanV8Function(fn), location, lineNo, column)
+}
+
+function parseGeckoLine(line: string): StackFrame | null {
+  const match = GECKO_FRAME.exec(line)
+  if (!match) return null
+
+  const fn = match[1]
+  let location = match[2]
+  let lineNo: string | undefined = match[3]
+  let column: string | undefined = match[4]
+
+  const evalMatch = GECKO_EVAL.exec(location)
+  if (evalMatch) {
+    location = evalMatch[1]
+    lineNo = evalMatch[2]
+    column = undefined
+  }
+
+  // Guard against message text containing "@", e.g. an email address
+  if (!lineNo && location !== '[native code]') return null
+
+  return buildFrame(cleanGeckoFunction(fn), location, lineNo, column)
+}
+
+function buildFrame(fn: string | undefined, location: string, lineNo?: string, column?: string): StackFrame {
+  const isFile = !NON_FILE_LOCATIONS.includes(location) && !location.startsWith('index ')
+
+  return {
+    function: fn || undefined,
+    file: isFile ? location : undefined,
+    line: isFile && lineNo ? Number(lineNo) : undefined,
+    column: isFile && column ? Number(column) : undefined,
+  }
+}
+
+function cleanV8Function(fn?: string): string | undefined {
+  if (!fn) return undefined
+  return fn.replace(/^async /, '').trim()
+}
+
+function cleanGeckoFunction(fn?: string): string | undefined {
+  if (!fn) return undefined
+  // Firefox marks nested anonymous functions with "/<", e.g. "outer/<"
+  const cleaned = fn.replace(/\/<+$/, '').replace(/<\/$/, '').trim()
+  if (cleaned === 'global code' || cleaned === 'eval code' || cleaned === 'module code') {
+    return undefined
+  }
+  return cleaned || undefined
+}
@@ -0,0 +1,283 @@
+import type { NoticePayload } from './types'
+
+const DB_NAME = 'checkend'
+const DB_VERSION = 1
+const STORE_NAME = 'queue'
+
+/**
+ * A notice payload waiting in persistent storage
+ */
+export interface StoredNotice {
+  payload: NoticePayload
+  /** Epoch milliseconds when the notice was stored */
+  storedAt: number
+  /** Client delivering the notice, while its lease lasts */
+  leasedBy?: string
+  /** Epoch milliseconds when the lease runs out */
+  leasedUntil?: number
+}
+
+/**
+ * Backend that reads and writes the whole stored queue at once
+ */
+export interface QueueStore {
+  read(): Promise<StoredNotice[]>
+  write(entries: StoredNotice[]): Promise<void>
+}
+
+/**
+ * Limits applied to the persistent queue
+ */
+export interface PersistentQueueLimits {
+  /** Maximum number of stored notices */
+  maxEntries: number
+  /** Maximum total size of stored notices, in bytes of JSON */
+  maxBytes: number
+  /** Maximum age of a stored notice, in milliseconds */
+  maxAge: number
+}
+
+/**
+ * QueueStore backed by IndexedDB, falling back to another store when the
+ * database cannot be opened (e.g. private browsing in some browsers).
+ */
+export class IndexedDBStore implements QueueStore {
+  private key: string
+  private fallback: QueueStore | null
+  private db: Promise<IDBDatabase> | null = null
+
+  constructor(key: string, fallback: QueueStore | null = null) {
+    this.key = key
+    this.fallback = fallback
+  }
+
+  async read(): Promise<StoredNotice[]> {
+    const db = await this.open().catch(() => null)
+    if (!db) return this.fallback ? this.fallback.read() : []
+
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(this.key)
+      request.onsuccess = () => resolve((request.result as StoredNotice[] | undefined) ?? [])
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async write(entries: StoredNotice[]): Promise<void> {
+    const db = await this.open().catch(() => null)
+    if (!db) {
+      if (this.fallback) await this.fallback.write(entries)
+      return
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      transaction.objectStore(STORE_NAME).put(entries, this.key)
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME)
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.db
+  }
+}
+
+/**
+ * QueueStore backed by localStorage
+ */
+export class LocalStorageStore implements QueueStore {
+  private key: string
+
+  constructor(key: string) {
+    this.key = key
+  }
+
+  async read(): Promise<StoredNotice[]> {
+    const raw = localStorage.getItem(this.key)
+    if (!raw) return []
+
+    try {
+      const entries = JSON.parse(raw)
+      return Array.isArray(entries) ? entries : []
+    } catch {
+      return []
+    }
+  }
+
+  async write(entries: StoredNotice[]): Promise<void> {
+    if (entries.length === 0) {
+      localStorage.removeItem(this.key)
+    } else {
+      localStorage.setItem(this.key, JSON.stringify(entries))
+    }
+  }
+}
+
+/**
+ * Pick the best available storage: IndexedDB, then localStorage.
+ * Returns null when neither is usable.
+ */
+export function createQueueStore(key: string): QueueStore | null {
+  const local = hasLocalStorage() ? new LocalStorageStore(key) : null
+
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBStore(key, local)
+  }
+
+  return local
+}
+
+/**
+ * PersistentQueue keeps undelivered notices across page loads. Every open tab
+ * shares it, so entries are leased to one client at a time while delivered.
+ */
+export class PersistentQueue {
+  private store: QueueStore
+  private limits: PersistentQueueLimits
+  private lockName: string | null
+  private pending: Promise<unknown> = Promise.resolve()
+
+  /**
+   * @param lockName - Web Lock that serializes access across tabs, where the browser supports it
+   */
+  constructor(store: QueueStore, limits: PersistentQueueLimits, lockName: string | null = null) {
+    this.store = store
+    this.limits = limits
+    this.lockName = lockName
+  }
+
+  /**
+   * Store payloads, evicting the oldest entries when over the size limits
+   */
+  add(payloads: NoticePayload[]): Promise<void> {
+    return this.exclusive(async () => {
+      const now = Date.now()
+      const entries = this.prune(await this.store.read(), now)
+
+      for (const payload of payloads) {
+        entries.push({ payload, storedAt: now })
+      }
+
+      await this.store.write(this.enforceLimits(entries))
+    })
+  }
+
+  /**
+   * Lease up to limit unexpired payloads that no client holds a lease on,
+   * oldest first. They stay stored until remove() is called, so a page closed
+   * mid-delivery loses nothing, and other clients skip them until release()
+   * is called or the lease runs out.
+   */
+  claim(owner: string, limit: number, leaseDuration: number): Promise<NoticePayload[]> {
+    return this.exclusive(async () => {
+      const now = Date.now()
+      const entries = this.prune(await this.store.read(), now)
+      const claimed = entries.filter((entry) => !entry.leasedUntil || entry.leasedUntil <= now).slice(0, limit)
+
+      for (const entry of claimed) {
+        entry.leasedBy = owner
+        entry.leasedUntil = now + leaseDuration
+      }
+      await this.store.write(entries)
+      return claimed.map((entry) => entry.payload)
+    })
+  }
+
+  /**
+   * Give up an owner's lease on payloads, such as ones that failed to send,
+   * so the next claim picks them up again
+   */
+  release(payloads: NoticePayload[], owner: string): Promise<void> {
+    return this.exclusive(async () => {
+      const entries = this.prune(await this.store.read(), Date.now())
+      const leased = entries.filter((entry) => entry.leasedBy === owner)
+
+      for (const entry of findEntries(leased, payloads)) {
+        delete entry.leasedBy
+        delete entry.leasedUntil
+      }
+      await this.store.write(entries)
+    })
+  }
+
+  /**
+   * Remove stored payloads, such as ones that have been delivered.
+   * Payloads are matched by content, one stored entry each.
+   */
+  remove(payloads: NoticePayload[]): Promise<void> {
+    return this.exclusive(async () => {
+      const entries = this.prune(await this.store.read(), Date.now())
+      const removing = findEntries(entries, payloads)
+      await this.store.write(entries.filter((entry) => !removing.has(entry)))
+    })
+  }
+
+  private prune(entries: StoredNotice[], now: number): StoredNotice[] {
+    return entries.filter((entry) => entry && entry.payload && now - entry.storedAt <= this.limits.maxAge)
+  }
+
+  private enforceLimits(entries: StoredNotice[]): StoredNotice[] {
+    const result = entries.slice(Math.max(0, entries.length - this.limits.maxEntries))
+    let bytes = result.reduce((total, entry) => total + sizeOf(entry), 0)
+
+    while (result.length > 0 && bytes > this.limits.maxBytes) {
+      bytes -= sizeOf(result.shift()!)
+    }
+
+    return result
+  }
+
+  // Serialize read-modify-write cycles so concurrent calls, from this tab or another, don't lose entries
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const { lockName } = this
+    const locked =
+      lockName && typeof navigator !== 'undefined' && navigator.locks
+        ? async (): Promise<T> => await navigator.locks.request(lockName, operation)
+        : operation
+
+    const result = this.pending.then(locked, locked)
+    this.pending = result.catch(() => undefined)
+    return result
+  }
+}
+
+/**
+ * Find one stored entry per payload, matching by content
+ */
+function findEntries(entries: StoredNotice[], payloads: NoticePayload[]): Set<StoredNotice> {
+  const wanted = payloads.map((payload) => JSON.stringify(payload))
+  const found = new Set<StoredNotice>()
+
+  for (const entry of entries) {
+    const index = wanted.indexOf(JSON.stringify(entry.payload))
+    if (index !== -1) {
+      wanted.splice(index, 1)
+      found.add(entry)
+    }
+  }
+  return found
+}
+
+function sizeOf(entry: StoredNotice): number {
+  return JSON.stringify(entry).length
+}
+
+function hasLocalStorage(): boolean {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage !== null
+  } catch {
+    // Accessing localStorage can throw when storage is blocked
+    return false
+  }
+}
@@ -0,0 +1,289 @@
+import { readdir, readFile } from 'node:fs/promises'
+import { dirname, join, posix, relative, resolve, sep } from 'node:path'
+import type { CausePayload, Notice, NoticePayload, StackFrame } from './types'
+import { SourceMap } from './sourcemap'
+import type { RawSourceMap, OriginalPosition } from './sourcemap'
+import { formatStackFrame, parseStackFrames } from './stacktrace'
+
+export { SourceMap } from './sourcemap'
+export type { RawSourceMap, OriginalPosition } from './sourcemap'
+
+const SCRIPT_EXTENSIONS = ['.js', '.mjs', '.cjs']
+const SOURCE_MAPPING_URL = /\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/gm
+
+interface LoadedSourceMap {
+  map: SourceMap
+  /** Directory of the .map file relative to sourceMapDir, for resolving relative sources */
+  base: string
+}
+
+/**
+ * Options for symbolication
+ */
+export interface SymbolicateOptions {
+  /** Directory containing .map files, searched recursively */
+  sourceMapDir: string
+}
+
+/**
+ * Result of checking one bundle file for a source map
+ */
+export interface SourceMapCheck {
+  /** Bundle file, relative to the bundle directory */
+  file: string
+  /** found: .map file exists, inline: data URL, missing: no map, invalid: map can't be parsed */
+  status: 'found' | 'inline' | 'missing' | 'invalid'
+  /** Path of the source map, when one was located */
+  sourceMap?: string
+  error?: string
+}
+
+/**
+ * Symbolicator rewrites minified stack frames to their original locations
+ * using local source map files. Node only.
+ *
+ * @example
+ * import { Symbolicator } from '@checkend/browser/symbolicate'
+ *
+ * const symbolicator = new Symbolicator({ sourceMapDir: './dist' })
+ * const payload = await symbolicator.symbolicatePayload(rawPayload)
+ */
+export class Symbolicator {
+  private sourceMapDir: string
+  private index: Promise<Map<string, string>> | null = null
+  private maps = new Map<string, Promise<LoadedSourceMap | null>>()
+
+  constructor(options: SymbolicateOptions) {
+    this.sourceMapDir = resolve(options.sourceMapDir)
+  }
+
+  /**
+   * Map each frame to its original file, line, column and function name.
+   *
+   * Minified function names are recovered from the caller's frame: the name
+   * mapped at the call site is the original name of the function being called.
+   */
+  async symbolicateFrames(frames: StackFrame[]): Promise<StackFrame[]> {
+    const positions = await Promise.all(frames.map((frame) => this.originalPositionFor(frame)))
+
+    return frames.map((frame, i) => {
+      const position = positions[i]
+      if (!position) return frame
+
+      return {
+        function: positions[i + 1]?.name ?? frame.function,
+        file: position.source,
+        line: position.line,
+        column: position.column,
+      }
+    })
+  }
+
+  /**
+   * Return a copy of the notice with symbolicated frames and backtrace
+   */
+  async symbolicateNotice(notice: Notice): Promise<Notice> {
+    const frames = await this.symbolicateFrames(notice.frames)
+    const causes = notice.causes
+      ? await Promise.all(
+          notice.causes.map(async (cause) => {
+            const causeFrames = await this.symbolicateFrames(cause.frames)
+            return { ...cause, frames: causeFrames, backtrace: causeFrames.map(formatStackFrame) }
+          })
+        )
+      : undefined
+
+    return { ...notice, frames, backtrace: frames.map(formatStackFrame), causes }
+  }
+
+  /**
+   * Return a copy of the payload with symbolicated frames and backtrace.
+   * Payloads without structured frames are parsed from their backtrace.
+   */
+  async symbolicatePayload(payload: NoticePayload): Promise<NoticePayload> {
+    const error = await this.symbolicateError(payload.error)
+    const causes = payload.causes ? await Promise.all(payload.causes.map((cause) => this.symbolicateError(cause))) : undefined
+
+    return { ...payload, error, causes }
+  }
+
+  private async symbolicateError<T extends CausePayload>(error: T): Promise<T> {
+    const original = error.frames ?? parseStackFrames(error.backtrace.join('\n'))
+    const frames = await this.symbolicateFrames(original)
+    return { ...error, frames, backtrace: frames.map(formatStackFrame) }
+  }
+
+  /**
+   * Find the source map for a script URL or path
+   */
+  async findSourceMap(file: string): Promise<string | null> {
+    const path = urlPath(file)
+    const index = await this.loadIndex()
+    let best: string | null = null
+
+    for (const key of index.keys()) {
+      if ((path === key || path.endsWith(`/${key}`)) && (!best || key.length > best.length)) {
+        best = key
+      }
+    }
+
+    return best ? index.get(best)! : null
+  }
+
+  private async originalPositionFor(frame: StackFrame): Promise<OriginalPosition | null> {
+    if (!frame.file || frame.line === undefined) return null
+
+    const loaded = await this.loadSourceMap(frame.file)
+    const position = loaded?.map.originalPositionFor(frame.line, frame.column ?? 1)
+    if (!loaded || !position) return null
+
+    return { ...position, source: resolveSource(loaded.base, position.source) }
+  }
+
+  private loadSourceMap(file: string): Promise<LoadedSourceMap | null> {
+    let loaded = this.maps.get(file)
+    if (!loaded) {
+      loaded = this.findSourceMap(file).then(async (path) => {
+        if (!path) return null
+        try {
+          const map = await readSourceMap(path)
+          return { map, base: toPosix(relative(this.sourceMapDir, dirname(path))) }
+        } catch {
+          return null
+        }
+      })
+      this.maps.set(file, loaded)
+    }
+    return loaded
+  }
+
+  private loadIndex(): Promise<Map<string, string>> {
+    if (!this.index) {
+      this.index = walk(this.sourceMapDir).then((files) => {
+        const index = new Map<string, string>()
+        for (const file of files) {
+          if (file.endsWith('.map')) {
+            index.set(toPosix(relative(this.sourceMapDir, file)).slice(0, -'.map'.length), file)
+          }
+        }
+        return index
+      })
+    }
+    return this.index
+  }
+}
+
+/**
+ * Symbolicate a Notice or NoticePayload against a directory of .map files
+ */
+export async function symbolicate<T extends Notice | NoticePayload>(input: T, options: SymbolicateOptions): Promise<T> {
+  const symbolicator = new Symbolicator(options)
+
+  if (isPayload(input)) {
+    return (await symbolicator.symbolicatePayload(input)) as T
+  }
+  return (await symbolicator.symbolicateNotice(input as Notice)) as T
+}
+
+/**
+ * Check that every script in a built bundle has a source map.
+ * With sourceMapDir, maps are also looked up there (for maps stored apart from the bundle).
+ */
+export async function checkSourceMaps(
+  bundleDir: string,
+  options: Partial<SymbolicateOptions> = {}
+): Promise<SourceMapCheck[]> {
+  const root = resolve(bundleDir)
+  const symbolicator = options.sourceMapDir ? new Symbolicator({ sourceMapDir: options.sourceMapDir }) : null
+  const scripts = (await walk(root)).filter((file) => SCRIPT_EXTENSIONS.some((ext) => file.endsWith(ext)))
+  const results: SourceMapCheck[] = []
+
+  for (const script of scripts.sort()) {
+    const file = toPosix(relative(root, script))
+    const reference = findSourceMappingUrl(await readFile(script, 'utf8'))
+
+    if (reference?.startsWith('data:')) {
+      results.push({ file, status: 'inline' })
+      continue
+    }
+
+    const candidates = [
+      reference ? resolve(dirname(script), decodeURIComponent(reference)) : null,
+      `${script}.map`,
+      symbolicator ? await symbolicator.findSourceMap(file) : null,
+    ].filter((candidate): candidate is string => Boolean(candidate))
+
+    results.push(await checkCandidates(file, candidates))
+  }
+
+  return results
+}
+
+async function checkCandidates(file: string, candidates: string[]): Promise<SourceMapCheck> {
+  for (const candidate of candidates) {
+    try {
+      await readSourceMap(candidate)
+      return { file, status: 'found', sourceMap: candidate }
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') continue
+      return { file, status: 'invalid', sourceMap: candidate, error: (e as Error).message }
+    }
+  }
+
+  return { file, status: 'missing' }
+}
+
+async function readSourceMap(path: string): Promise<SourceMap> {
+  const raw = JSON.parse(await readFile(path, 'utf8')) as RawSourceMap
+  return new SourceMap(raw)
+}
+
+function findSourceMappingUrl(content: string): string | null {
+  let reference: string | null = null
+  for (const match of content.matchAll(SOURCE_MAPPING_URL)) {
+    reference = match[1]
+  }
+  return reference
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true })
+  const files: string[] = []
+
+  for (const entry of entries) {
+    const path = join(dir, entry.name)
+    if (entry.isDirectory()) {
+      if (entry.name !== 'node_modules') {
+        files.push(...(await walk(path)))
+      }
+    } else if (entry.isFile()) {
+      files.push(path)
+    }
+  }
+
+  return files
+}
+
+function resolveSource(base: string, source: string): string {
+  // Leave URLs (e.g. webpack://) and absolute paths alone
+  if (/^[a-z][\w+.-]*:/i.test(source) || source.startsWith('/')) {
+    return source
+  }
+  return posix.normalize(posix.join(base, source))
+}
+
+function urlPath(file: string): string {
+  try {
+    return decodeURIComponent(new URL(file).pathname)
+  } catch {
+    return toPosix(file)
+  }
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join('/')
+}
+
+function isPayload(input: Notice | NoticePayload): input is NoticePayload {
+  return 'error' in input && 'notifier' in input
+}
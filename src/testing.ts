@@ -1,4 +1,4 @@
-import type { Notice, ApiResponse } from './types'
+import type { Notice, ApiResponse, Breadcrumb, StackFrame, DroppedPayload, CausePayload } from './types'
 
 /**
  * Testing utilities for Checkend Browser SDK.
@@ -125,21 +125,27 @@ async function mockFetch(input: RequestInfo | URL, init?: RequestInit): Promise<
 
   // Check if this is a Checkend request
   if (url.includes('/ingest/v1/errors')) {
-    const body = init?.body
+    // Plain bodies are captured synchronously, before fetch resolves
+    const body = init?.body && isGzipped(init) ? await inflate(init.body) : init?.body?.toString()
+    let batch: unknown[] | null = null
     if (body) {
       try {
-        const payload = JSON.parse(body.toString())
-        captureFromPayload(payload)
+        const payload = JSON.parse(body)
+        if (Array.isArray(payload.notices)) {
+          batch = payload.notices
+          payload.notices.forEach(captureFromPayload)
+        } else {
+          captureFromPayload(payload)
+        }
       } catch {
         // Ignore parse errors
       }
     }
 
     // Return a fake successful response
-    const response: ApiResponse = {
-      id: notices.length,
-      problem_id: notices.length,
-    }
+    const response = batch
+      ? { notices: batchResponses(batch.length) }
+      : fakeResponse(notices.length)
 
     return new Response(JSON.stringify(response), {
       status: 201,
@@ -155,6 +161,24 @@ async function mockFetch(input: RequestInfo | URL, init?: RequestInit): Promise<
   throw new Error('fetch not available')
 }
 
+function isGzipped(init?: RequestInit): boolean {
+  return new Headers(init?.headers).get('Content-Encoding') === 'gzip'
+}
+
+async function inflate(body: BodyInit): Promise<string> {
+  const stream = new Response(body).body!.pipeThrough(new DecompressionStream('gzip'))
+  return new Response(stream).text()
+}
+
+function fakeResponse(id: number): ApiResponse {
+  return { id, problem_id: id }
+}
+
+// The last count captured notices, in order
+function batchResponses(count: number): ApiResponse[] {
+  return Array.from({ length: count }, (_, index) => fakeResponse(notices.length - count + index + 1))
+}
+
 function mockSendBeacon(url: string, data?: BodyInit | null): boolean {
   // Check if this is a Checkend request
   if (url.includes('/ingest/v1/errors')) {
@@ -192,25 +216,46 @@ function captureFromPayload(payload: {
     class: string
     message: string
     backtrace: string[]
+    frames?: StackFrame[]
     occurred_at: string
     fingerprint?: string
     tags?: string[]
+    occurrences?: number
   }
   context: Record<string, unknown>
   request: Record<string, unknown>
   user: Record<string, unknown>
+  breadcrumbs?: Breadcrumb[]
+  causes?: CausePayload[]
+  dropped?: DroppedPayload
 }): void {
   const notice: Notice = {
     errorClass: payload.error.class,
     message: payload.error.message,
     backtrace: payload.error.backtrace,
+    frames: payload.error.frames ?? [],
     fingerprint: payload.error.fingerprint,
     tags: payload.error.tags ?? [],
     context: payload.context,
     request: payload.request,
     user: payload.user,
+    breadcrumbs: payload.breadcrumbs ?? [],
+    causes: payload.causes?.map((cause) => ({
+      errorClass: cause.class,
+      message: cause.message,
+      backtrace: cause.backtrace,
+      frames: cause.frames ?? [],
+    })),
     environment: payload.context.environment as string | undefined,
     occurredAt: payload.error.occurred_at,
+    dropped: payload.dropped
+      ? {
+          sampled: payload.dropped.sampled,
+          pageLoadLimit: payload.dropped.page_load_limit,
+          minuteLimit: payload.dropped.minute_limit,
+        }
+      : undefined,
+    occurrences: payload.error.occurrences,
   }
 
   notices.push(notice)
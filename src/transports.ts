@@ -0,0 +1,296 @@
+import type {
+  ApiResponse,
+  BatchTransportResult,
+  NoticePayload,
+  Transport,
+  TransportOptions,
+  TransportResult,
+} from './types'
+import { canCompress, gzip } from './compression'
+import { VERSION } from './version'
+
+const USER_AGENT = `@checkend/browser/${VERSION}`
+const DEFAULT_TIMEOUT = 15000
+// Pause after a 429 without a usable Retry-After header
+const DEFAULT_RETRY_AFTER = 1000
+
+/**
+ * Sends payloads with fetch. The only built-in transport that supports batches.
+ */
+export class FetchTransport implements Transport {
+  private options: TransportOptions
+
+  constructor(options: TransportOptions) {
+    this.options = options
+  }
+
+  async send(payload: NoticePayload): Promise<TransportResult> {
+    const result = await this.post(requestUrl(this.options), JSON.stringify(payload))
+    if (result instanceof Response) {
+      return interpretResponse(
+        result.status,
+        await result.text().catch(() => ''),
+        result.headers.get('Retry-After'),
+        this.options
+      )
+    }
+    return result
+  }
+
+  async sendBatch(payloads: NoticePayload[]): Promise<BatchTransportResult> {
+    const result = await this.post(requestUrl(this.options, true), JSON.stringify({ notices: payloads }))
+    if (!(result instanceof Response)) return result
+
+    if (result.status === 404) {
+      return { response: null, retryable: false, batchUnsupported: true }
+    }
+
+    const body = await result.text().catch(() => '')
+    if (result.status === 201) {
+      const responses = parseJson<{ notices?: ApiResponse[] }>(body)?.notices ?? []
+      log(this.options, `Batch of ${payloads.length} notice(s) sent successfully`)
+      return { response: null, responses, retryable: false }
+    }
+
+    return interpretResponse(result.status, body, result.headers.get('Retry-After'), this.options)
+  }
+
+  /**
+   * POST a JSON body, returning the response or the result of a failed request
+   */
+  private async post(url: string, body: string): Promise<Response | TransportResult> {
+    const timeout = this.options.timeout ?? DEFAULT_TIMEOUT
+
+    try {
+      const headers = requestHeaders(this.options)
+      headers['User-Agent'] = USER_AGENT
+      // Only await when compressing, so a plain send reaches fetch synchronously
+      const requestBody = this.options.compress && canCompress() ? await compressBody(body, headers, this.options) : body
+
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), timeout)
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: requestBody,
+        signal: controller.signal,
+      })
+
+      clearTimeout(timeoutId)
+
+      return response
+    } catch (e) {
+      if (e instanceof Error && e.name === 'AbortError') {
+        logError('Request timeout')
+        return timeoutResult(timeout)
+      }
+
+      logError(`Failed to send notice: ${e}`)
+      return { response: null, retryable: true, error: e instanceof Error ? e : new Error(String(e)) }
+    }
+  }
+}
+
+/**
+ * Sends payloads with XMLHttpRequest, for environments where fetch is missing or patched
+ */
+export class XhrTransport implements Transport {
+  private options: TransportOptions
+
+  constructor(options: TransportOptions) {
+    this.options = options
+  }
+
+  async send(payload: NoticePayload): Promise<TransportResult> {
+    const timeout = this.options.timeout ?? DEFAULT_TIMEOUT
+    const headers = requestHeaders(this.options)
+    const body = JSON.stringify(payload)
+    const requestBody = this.options.compress && canCompress() ? await compressBody(body, headers, this.options) : body
+
+    return new Promise((resolve) => {
+      try {
+        const xhr = new XMLHttpRequest()
+        xhr.open('POST', requestUrl(this.options))
+        for (const [name, value] of Object.entries(headers)) {
+          xhr.setRequestHeader(name, value)
+        }
+        xhr.timeout = timeout
+
+        xhr.onload = () => {
+          resolve(interpretResponse(xhr.status, xhr.responseText, xhr.getResponseHeader('Retry-After'), this.options))
+        }
+        xhr.onerror = () => {
+          logError('Failed to send notice: network error')
+          resolve({ response: null, retryable: true, error: new Error('Network request failed') })
+        }
+        xhr.ontimeout = () => {
+          logError('Request timeout')
+          resolve(timeoutResult(timeout))
+        }
+
+        xhr.send(requestBody as XMLHttpRequestBodyInit)
+      } catch (e) {
+        logError(`Failed to send notice: ${e}`)
+        resolve({ response: null, retryable: true, error: e instanceof Error ? e : new Error(String(e)) })
+      }
+    })
+  }
+}
+
+/**
+ * Sends payloads with navigator.sendBeacon, which survives page unload but
+ * never sees the response. Fails without sending when the browser refuses the beacon.
+ */
+export class BeaconTransport implements Transport {
+  private options: TransportOptions
+
+  constructor(options: TransportOptions) {
+    this.options = options
+  }
+
+  async send(payload: NoticePayload): Promise<TransportResult> {
+    if (typeof navigator === 'undefined' || !navigator.sendBeacon) {
+      return { response: null, retryable: false, error: new Error('sendBeacon is not available') }
+    }
+
+    try {
+      const blob = new Blob([JSON.stringify(payload)], { type: 'application/json' })
+      // sendBeacon can't set headers, so the key goes in the query string (unless
+      // the tunnel adds it) and the body is never compressed
+      const url = this.options.tunnel ?? `${this.options.ingestUrl}?key=${encodeURIComponent(this.options.apiKey)}`
+      if (navigator.sendBeacon(url, blob)) {
+        return { response: null, retryable: false }
+      }
+      return { response: null, retryable: false, error: new Error('sendBeacon refused the notice') }
+    } catch (e) {
+      log(this.options, `sendBeacon failed: ${e}`)
+      return { response: null, retryable: false, error: e instanceof Error ? e : new Error(String(e)) }
+    }
+  }
+}
+
+/**
+ * Where to post: the tunnel, which tells batches apart by their shape, or the ingestion API
+ */
+function requestUrl(options: TransportOptions, batch = false): string {
+  if (options.tunnel) return options.tunnel
+  return batch ? `${options.ingestUrl}/batch` : options.ingestUrl
+}
+
+/**
+ * Request headers; the ingestion key is left to the tunnel when there is one
+ */
+function requestHeaders(options: TransportOptions): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (!options.tunnel) {
+    headers['Checkend-Ingestion-Key'] = options.apiKey
+  }
+  return headers
+}
+
+/**
+ * Turn an ingestion API response into a transport result
+ */
+function interpretResponse(
+  status: number,
+  body: string,
+  retryAfter: string | null,
+  options: TransportOptions
+): TransportResult {
+  if (status === 201) {
+    const result = parseJson<ApiResponse>(body)
+    log(options, `Notice sent successfully: id=${result?.id} problem_id=${result?.problem_id}`)
+    return { response: result, retryable: false }
+  }
+
+  switch (status) {
+    case 400:
+      logWarn(`Bad request: ${body}`)
+      break
+    case 401:
+      logError('Authentication failed - check your API key')
+      break
+    case 422:
+      logWarn(`Invalid notice payload: ${body}`)
+      break
+    case 429:
+      return {
+        response: null,
+        retryable: true,
+        retryAfter: parseRetryAfter(retryAfter) ?? DEFAULT_RETRY_AFTER,
+        error: new Error('Rate limited (429)'),
+      }
+    default:
+      if (status >= 500) {
+        logError(`Server error: ${status} - ${body}`)
+      } else {
+        logError(`Unexpected response: ${status} - ${body}`)
+      }
+  }
+
+  return { response: null, retryable: status >= 500, error: new Error(`Checkend responded with ${status}`) }
+}
+
+/**
+ * Gzip the body, marking it in the headers, or leave it as is if that fails
+ */
+async function compressBody(
+  body: string,
+  headers: Record<string, string>,
+  options: TransportOptions
+): Promise<string | ArrayBuffer> {
+  try {
+    const compressed = await gzip(body)
+    headers['Content-Encoding'] = 'gzip'
+    return compressed
+  } catch (e) {
+    log(options, `Compression failed, sending uncompressed: ${e}`)
+    return body
+  }
+}
+
+function timeoutResult(timeout: number): TransportResult {
+  return { response: null, retryable: true, error: new Error(`Request timed out after ${timeout}ms`) }
+}
+
+function parseJson<T>(body: string): T | null {
+  try {
+    return JSON.parse(body) as T
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+
+  return undefined
+}
+
+function log(options: TransportOptions, message: string): void {
+  if (options.debug) {
+    console.log(`[Checkend] ${message}`)
+  }
+}
+
+function logWarn(message: string): void {
+  console.warn(`[Checkend] ${message}`)
+}
+
+function logError(message: string): void {
+  console.error(`[Checkend] ${message}`)
+}
@@ -0,0 +1,164 @@
+import type { NoticePayload, TruncatedPayload } from './types'
+
+const TRUNCATED = '[TRUNCATED]'
+// Strings are never cut shorter than this
+const MIN_STRING_LENGTH = 32
+// Context keys the server relies on; never dropped
+const KEPT_CONTEXT_KEYS = ['environment']
+
+/**
+ * Size of a payload in bytes once serialized
+ */
+export function payloadSize(payload: NoticePayload): number {
+  return new TextEncoder().encode(JSON.stringify(payload)).length
+}
+
+/**
+ * Trim a payload to fit in maxSize bytes. Returns the payload unchanged if it fits.
+ *
+ * Parts are dropped in this order until it fits:
+ * 1. breadcrumbs, oldest first
+ * 2. context entries, largest first
+ * 3. nested values in context, request and user, deepest first
+ * 4. linked errors (causes), from the end
+ * 5. backtrace lines and frames, from the end
+ * 6. the end of long strings in the message, context, request and user
+ *
+ * The trimmed payload's `truncated` field records what was dropped. A payload
+ * made mostly of short strings may still not fit.
+ */
+export function trimPayload(payload: NoticePayload, maxSize: number): NoticePayload {
+  const originalSize = payloadSize(payload)
+  if (originalSize <= maxSize) return payload
+
+  const truncated: TruncatedPayload = { original_size: originalSize }
+  const trimmed: NoticePayload = {
+    ...payload,
+    error: { ...payload.error },
+    context: { ...payload.context },
+    breadcrumbs: payload.breadcrumbs ? [...payload.breadcrumbs] : undefined,
+    causes: payload.causes ? [...payload.causes] : undefined,
+    truncated,
+  }
+  const fits = (): boolean => payloadSize(trimmed) <= maxSize
+
+  // 1. Breadcrumbs, halving from the oldest end
+  while (!fits() && trimmed.breadcrumbs && trimmed.breadcrumbs.length > 0) {
+    const count = Math.ceil(trimmed.breadcrumbs.length / 2)
+    trimmed.breadcrumbs = trimmed.breadcrumbs.slice(count)
+    truncated.breadcrumbs = (truncated.breadcrumbs ?? 0) + count
+  }
+  if (trimmed.breadcrumbs?.length === 0) {
+    trimmed.breadcrumbs = undefined
+  }
+
+  // 2. Context entries, largest first
+  if (!fits()) {
+    const keys = Object.keys(trimmed.context)
+      .filter((key) => !KEPT_CONTEXT_KEYS.includes(key))
+      .sort((a, b) => valueSize(trimmed.context[b]) - valueSize(trimmed.context[a]))
+
+    for (const key of keys) {
+      if (fits()) break
+      delete trimmed.context[key]
+      truncated.context_keys = [...(truncated.context_keys ?? []), key]
+    }
+  }
+
+  // 3. Nested values, cutting the remaining data at shallower and shallower depths
+  for (let depth = maxDepth(trimmed) - 1; depth >= 1 && !fits(); depth--) {
+    trimmed.context = cutAtDepth(trimmed.context, depth) as NoticePayload['context']
+    trimmed.request = cutAtDepth(trimmed.request, depth) as NoticePayload['request']
+    trimmed.user = cutAtDepth(trimmed.user, depth) as NoticePayload['user']
+    truncated.max_depth = depth
+  }
+
+  // 4. Causes, from the end
+  while (!fits() && trimmed.causes && trimmed.causes.length > 0) {
+    trimmed.causes = trimmed.causes.slice(0, -1)
+    truncated.causes = (truncated.causes ?? 0) + 1
+  }
+  if (trimmed.causes?.length === 0) {
+    trimmed.causes = undefined
+  }
+
+  // 5. Backtrace tail, halving
+  while (!fits() && trimmed.error.backtrace.length > 0) {
+    const keep = Math.floor(trimmed.error.backtrace.length / 2)
+    truncated.backtrace = (truncated.backtrace ?? 0) + trimmed.error.backtrace.length - keep
+    trimmed.error.backtrace = trimmed.error.backtrace.slice(0, keep)
+    trimmed.error.frames = trimmed.error.frames?.slice(0, keep)
+    if (trimmed.error.frames?.length === 0) {
+      trimmed.error.frames = undefined
+    }
+  }
+
+  // 6. Long strings, halving the length they are cut to
+  for (let limit = Math.floor(maxSize / 2); !fits() && limit >= MIN_STRING_LENGTH; limit = Math.floor(limit / 2)) {
+    trimmed.error.message = truncateString(trimmed.error.message, limit)
+    trimmed.context = truncateStrings(trimmed.context, limit) as NoticePayload['context']
+    trimmed.request = truncateStrings(trimmed.request, limit) as NoticePayload['request']
+    trimmed.user = truncateStrings(trimmed.user, limit) as NoticePayload['user']
+    truncated.max_string_length = limit
+  }
+
+  return trimmed
+}
+
+function valueSize(value: unknown): number {
+  return JSON.stringify(value ?? null).length
+}
+
+function maxDepth(payload: NoticePayload): number {
+  return Math.max(depthOf(payload.context), depthOf(payload.request), depthOf(payload.user))
+}
+
+function depthOf(value: unknown): number {
+  if (value === null || typeof value !== 'object') return 0
+
+  let deepest = 0
+  for (const child of Object.values(value)) {
+    deepest = Math.max(deepest, depthOf(child))
+  }
+  return deepest + 1
+}
+
+function truncateString(value: string, limit: number): string {
+  return value.length > limit ? `${value.slice(0, limit)}...${TRUNCATED}` : value
+}
+
+/**
+ * Cut strings anywhere in a value to limit characters
+ */
+function truncateStrings(value: unknown, limit: number): unknown {
+  if (typeof value === 'string') return truncateString(value, limit)
+  if (value === null || typeof value !== 'object') return value
+
+  if (Array.isArray(value)) {
+    return value.map((item) => truncateStrings(item, limit))
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [key, child] of Object.entries(value)) {
+    result[key] = truncateStrings(child, limit)
+  }
+  return result
+}
+
+/**
+ * Replace objects and arrays more than depth levels down with a marker
+ */
+function cutAtDepth(value: unknown, depth: number): unknown {
+  if (value === null || typeof value !== 'object') return value
+  if (depth <= 0) return TRUNCATED
+
+  if (Array.isArray(value)) {
+    return value.map((item) => cutAtDepth(item, depth - 1))
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [key, child] of Object.entries(value)) {
+    result[key] = cutAtDepth(child, depth - 1)
+  }
+  return result
+}
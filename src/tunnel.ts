@@ -0,0 +1,269 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { NoticePayload } from './types'
+import { VERSION } from './version'
+
+const DEFAULT_ENDPOINT = 'https://app.checkend.io'
+const DEFAULT_MAX_BODY_SIZE = 1000000
+const DEFAULT_TIMEOUT = 15000
+const USER_AGENT = `@checkend/browser/${VERSION} (tunnel)`
+
+/**
+ * Options for a tunnel handler
+ */
+export interface TunnelOptions {
+  /** Checkend ingestion key; stays on the server */
+  apiKey: string
+  /** Checkend endpoint (default: https://app.checkend.io) */
+  endpoint?: string
+  /** Largest request body accepted, in bytes after decompression (default: 1000000) */
+  maxBodySize?: number
+  /** Upstream request timeout in milliseconds (default: 15000) */
+  timeout?: number
+}
+
+/**
+ * What to answer the browser with
+ */
+export interface TunnelResponse {
+  status: number
+  headers: Record<string, string>
+  body: string
+}
+
+/**
+ * Server side of the `tunnel` option. Checks that a request body is a notice
+ * or a batch of notices, adds the ingestion key and forwards it to Checkend.
+ * Runs in Node 18+ and Fetch API runtimes (Deno, Bun, edge functions).
+ *
+ * @example
+ * // Next.js route handler: app/checkend/route.ts
+ * import { createTunnelHandler } from '@checkend/browser/tunnel'
+ *
+ * export const POST = createTunnelHandler({ apiKey: process.env.CHECKEND_INGESTION_KEY! })
+ */
+export function createTunnelHandler(options: TunnelOptions): (request: Request) => Promise<Response> {
+  const maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE
+
+  return async (request) => {
+    let result: TunnelResponse
+
+    if (request.method !== 'POST') {
+      result = errorResponse(405, 'Method not allowed')
+    } else {
+      try {
+        const body = request.body ? await readStream(request.body, maxBodySize) : new ArrayBuffer(0)
+        result = body
+          ? await forwardNotice(body, request.headers.get('Content-Encoding'), options)
+          : errorResponse(413, 'Request body too large')
+      } catch {
+        result = errorResponse(400, 'Request body could not be read')
+      }
+    }
+
+    return new Response(result.body, { status: result.status, headers: result.headers })
+  }
+}
+
+/**
+ * Tunnel handler for Node's http module, Express and Connect. It reads the
+ * raw body, so mount it before any body-parsing middleware.
+ *
+ * @example
+ * import { createNodeTunnelHandler } from '@checkend/browser/tunnel'
+ *
+ * const tunnel = createNodeTunnelHandler({ apiKey: process.env.CHECKEND_INGESTION_KEY! })
+ * app.post('/checkend', tunnel)
+ */
+export function createNodeTunnelHandler(
+  options: TunnelOptions
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE
+
+  return async (req, res) => {
+    let result: TunnelResponse
+
+    if (req.method !== 'POST') {
+      result = errorResponse(405, 'Method not allowed')
+    } else {
+      try {
+        const body = await readBody(req, maxBodySize)
+        result = body
+          ? await forwardNotice(body, header(req, 'content-encoding'), options)
+          : errorResponse(413, 'Request body too large')
+      } catch {
+        // Usually the client aborting mid-upload; the answer may never arrive, but nothing is left unhandled
+        result = errorResponse(400, 'Request body could not be read')
+      }
+    }
+
+    res.writeHead(result.status, result.headers)
+    res.end(result.body)
+  }
+}
+
+/**
+ * Check a request body and forward it to the ingestion API. The building
+ * block of both handlers, for servers that are neither.
+ */
+export async function forwardNotice(
+  body: ArrayBuffer,
+  contentEncoding: string | null,
+  options: TunnelOptions
+): Promise<TunnelResponse> {
+  const maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE
+  if (body.byteLength > maxBodySize) {
+    return errorResponse(413, 'Request body too large')
+  }
+
+  let decoded: ArrayBuffer | null
+  try {
+    decoded = contentEncoding === 'gzip' ? await gunzip(body, maxBodySize) : body
+  } catch {
+    return errorResponse(400, 'Body could not be decompressed')
+  }
+  if (decoded === null) {
+    return errorResponse(413, 'Request body too large')
+  }
+  const text = new TextDecoder().decode(decoded)
+
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return errorResponse(400, 'Body is not JSON')
+  }
+
+  const batch = isRecord(data) && 'notices' in data
+  if (batch ? !isBatch(data) : !isNoticePayload(data)) {
+    return errorResponse(400, 'Body is not a Checkend notice')
+  }
+
+  const ingestUrl = `${options.endpoint ?? DEFAULT_ENDPOINT}/ingest/v1/errors${batch ? '/batch' : ''}`
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), options.timeout ?? DEFAULT_TIMEOUT)
+
+  try {
+    const response = await fetch(ingestUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Checkend-Ingestion-Key': options.apiKey,
+        'User-Agent': USER_AGENT,
+      },
+      body: text,
+      signal: controller.signal,
+    })
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    const retryAfter = response.headers.get('Retry-After')
+    if (retryAfter) {
+      headers['Retry-After'] = retryAfter
+    }
+
+    return { status: response.status, headers, body: await response.text() }
+  } catch (e) {
+    // The browser treats 5xx as retryable, as it would a failure to reach Checkend directly
+    return e instanceof Error && e.name === 'AbortError'
+      ? errorResponse(504, 'Checkend did not respond in time')
+      : errorResponse(502, 'Could not reach Checkend')
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Check that a value has the shape of a notice payload
+ */
+export function isNoticePayload(value: unknown): value is NoticePayload {
+  if (!isRecord(value) || !isRecord(value.error) || !isRecord(value.notifier)) return false
+
+  const { error } = value
+  return (
+    typeof error.class === 'string' &&
+    typeof error.message === 'string' &&
+    Array.isArray(error.backtrace) &&
+    (value.context === undefined || isRecord(value.context))
+  )
+}
+
+function isBatch(value: unknown): boolean {
+  if (!isRecord(value) || !Array.isArray(value.notices)) return false
+  return value.notices.length > 0 && value.notices.every(isNoticePayload)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function errorResponse(status: number, message: string): TunnelResponse {
+  return { status, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ error: message }) }
+}
+
+/**
+ * Decompress a gzipped body chunk by chunk, or return null as soon as it
+ * grows past maxSize, so a small, highly compressed body can't fill memory
+ */
+function gunzip(body: ArrayBuffer, maxSize: number): Promise<ArrayBuffer | null> {
+  return readStream(new Blob([body]).stream().pipeThrough(new DecompressionStream('gzip')), maxSize)
+}
+
+/**
+ * Read a stream to the end, or return null as soon as it grows past maxSize
+ */
+async function readStream(stream: ReadableStream<Uint8Array>, maxSize: number): Promise<ArrayBuffer | null> {
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    size += value.byteLength
+    if (size > maxSize) {
+      await reader.cancel().catch(() => undefined)
+      return null
+    }
+    chunks.push(value)
+  }
+
+  return concat(chunks, size)
+}
+
+function header(req: IncomingMessage, name: string): string | null {
+  const value = req.headers[name]
+  return (Array.isArray(value) ? value[0] : value) ?? null
+}
+
+/**
+ * Read a request body, or null once it grows past maxSize
+ */
+function readBody(req: IncomingMessage, maxSize: number): Promise<ArrayBuffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = []
+    let size = 0
+
+    req.on('data', (chunk: Uint8Array) => {
+      size += chunk.byteLength
+      if (size > maxSize) {
+        req.removeAllListeners('data')
+        req.resume()
+        resolve(null)
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolve(concat(chunks, size)))
+    req.on('error', reject)
+  })
+}
+
+function concat(chunks: Uint8Array[], size: number): ArrayBuffer {
+  const result = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return result.buffer
+}
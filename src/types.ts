@@ -1,3 +1,7 @@
+import type { Scope } from './scope'
+import type { CheckendClient } from './checkend'
+import type { MessageTarget } from './bridge'
+
 /**
  * User information for error tracking
  */
@@ -23,6 +27,39 @@ export interface RequestInfo {
  */
 export type Context = Record<string, unknown>
 
+/**
+ * Kinds of breadcrumbs recorded by the SDK
+ */
+export type BreadcrumbType = 'manual' | 'click' | 'console' | 'navigation' | 'request'
+
+/**
+ * Severity of a breadcrumb
+ */
+export type BreadcrumbLevel = 'debug' | 'info' | 'warning' | 'error'
+
+/**
+ * A timestamped event leading up to an error
+ */
+export interface Breadcrumb {
+  type: BreadcrumbType
+  message: string
+  category?: string
+  level?: BreadcrumbLevel
+  data?: Record<string, unknown>
+  timestamp: string
+}
+
+/**
+ * Breadcrumb data accepted by addBreadcrumb()
+ */
+export interface BreadcrumbInput {
+  message: string
+  type?: BreadcrumbType
+  category?: string
+  level?: BreadcrumbLevel
+  data?: Record<string, unknown>
+}
+
 /**
  * Notifier metadata sent with each error
  */
@@ -33,6 +70,18 @@ export interface Notifier {
   language_version: string
 }
 
+/**
+ * A single parsed stack frame
+ */
+export interface StackFrame {
+  /** Function name, if known */
+  function?: string
+  /** Script URL or file path */
+  file?: string
+  line?: number
+  column?: number
+}
+
 /**
  * Error payload structure
  */
@@ -40,9 +89,21 @@ export interface ErrorPayload {
   class: string
   message: string
   backtrace: string[]
+  frames?: StackFrame[]
   occurred_at: string
   fingerprint?: string
   tags?: string[]
+  occurrences?: number
+}
+
+/**
+ * An error linked to the reported one, in the API payload
+ */
+export interface CausePayload {
+  class: string
+  message: string
+  backtrace: string[]
+  frames?: StackFrame[]
 }
 
 /**
@@ -53,9 +114,43 @@ export interface NoticePayload {
   context: Context
   request: RequestInfo
   user: User
+  breadcrumbs?: Breadcrumb[]
+  /** Errors linked through `cause` and AggregateError's `errors`, depth first */
+  causes?: CausePayload[]
+  dropped?: DroppedPayload
+  truncated?: TruncatedPayload
   notifier: Notifier
 }
 
+/**
+ * What was dropped to fit a payload in maxPayloadSize
+ */
+export interface TruncatedPayload {
+  /** Size in bytes before trimming */
+  original_size: number
+  /** Breadcrumbs dropped, oldest first */
+  breadcrumbs?: number
+  /** Context keys dropped */
+  context_keys?: string[]
+  /** Depth below which context, request and user values were replaced */
+  max_depth?: number
+  /** Linked errors dropped from the end */
+  causes?: number
+  /** Backtrace lines dropped from the end */
+  backtrace?: number
+  /** Length that long strings in the message, context, request and user were cut to */
+  max_string_length?: number
+}
+
+/**
+ * Dropped notice counts as sent to the API
+ */
+export interface DroppedPayload {
+  sampled: number
+  page_load_limit: number
+  minute_limit: number
+}
+
 /**
  * API response on successful error submission
  */
@@ -73,13 +168,127 @@ export interface NotifyOptions {
   user?: User
   fingerprint?: string
   tags?: string[]
+  /** Scope to report from instead of the active one */
+  scope?: Scope
+}
+
+/**
+ * What a beforeNotify callback returns: a replacement notice, false or null
+ * to drop the notice, or nothing to send it as it is
+ */
+export type BeforeNotifyResult = Notice | boolean | null | void
+
+/**
+ * Callback function called before sending a notice.
+ * May return a promise, which is awaited up to beforeNotifyTimeout.
+ */
+export type BeforeNotifyCallback = (notice: Notice) => BeforeNotifyResult | Promise<BeforeNotifyResult>
+
+/**
+ * Outcome of sending a notice
+ */
+export interface DeliveryResult {
+  /** The API response, or null if there was none (sendBeacon, postMessage, failure) */
+  response: ApiResponse | null
+  /** Why the notice could not be delivered */
+  error?: Error
+}
+
+/**
+ * Callback function called after a notice is sent or fails to send
+ */
+export type AfterNotifyCallback = (notice: Notice, result: DeliveryResult) => void
+
+/**
+ * Outcome of sending a payload through a transport
+ */
+export interface TransportResult {
+  /** The API response, or null if there was none (sendBeacon, failure) */
+  response: ApiResponse | null
+  /** True when delivery failed but may succeed later (offline, timeout, 5xx, 429) */
+  retryable: boolean
+  /** Milliseconds to pause all sending, from a 429 response */
+  retryAfter?: number
+  /** Why the payload could not be delivered; unset when it was sent */
+  error?: Error
+}
+
+/**
+ * Outcome of sending several payloads in one request
+ */
+export interface BatchTransportResult extends TransportResult {
+  /** Per-payload responses, in order */
+  responses?: ApiResponse[]
+  /** True when the server has no batch route, so payloads must be sent one at a time */
+  batchUnsupported?: boolean
+}
+
+/**
+ * Delivers payloads to Checkend. The client retries, persists and rate limits
+ * around it, so a transport makes exactly one attempt per call.
+ */
+export interface Transport {
+  /** Send one payload */
+  send(payload: NoticePayload): Promise<TransportResult>
+  /** Send several payloads in one request. Without it, `batch` has no effect. */
+  sendBatch?(payloads: NoticePayload[]): Promise<BatchTransportResult>
+}
+
+/**
+ * Where and how the built-in transports send
+ */
+export interface TransportOptions {
+  /** Checkend ingestion key */
+  apiKey: string
+  /** Ingestion URL, e.g. https://app.checkend.io/ingest/v1/errors */
+  ingestUrl: string
+  /** Request timeout in milliseconds (default: 15000) */
+  timeout?: number
+  /** Gzip request bodies where CompressionStream is available (default: false) */
+  compress?: boolean
+  /** Same-origin URL to post to instead, without the ingestion key (default: null) */
+  tunnel?: string | null
+  /** Log successful sends (default: false) */
+  debug?: boolean
 }
 
 /**
- * Callback function called before sending a notice
- * Return false to prevent sending
+ * A capture source or notice processor that plugs into a client.
+ * Create one instance per client.
+ */
+export interface Integration {
+  /** Unique name; an integration passed in `integrations` replaces the default with the same name */
+  name: string
+  /** Install the integration, e.g. add event listeners. Called when the client starts. */
+  setup(client: CheckendClient): void
+  /** Undo everything setup() did. Called when the client stops. */
+  teardown(): void
+  /** Process every notice before the beforeNotify callbacks, with the same return values */
+  processNotice?(notice: Notice): BeforeNotifyResult | Promise<BeforeNotifyResult>
+}
+
+/**
+ * Integrations to add to or replace the defaults, or a function returning the full list
+ */
+export type IntegrationsOption = Integration[] | ((defaults: Integration[]) => Integration[])
+
+/**
+ * Callback returning the sample rate (0 to 1) for a notice.
+ * Return undefined to fall back to sampleRate.
  */
-export type BeforeNotifyCallback = (notice: Notice) => boolean | void
+export type SamplerCallback = (notice: Notice) => number | undefined | void
+
+/**
+ * Notices dropped since the last notice sent, by reason
+ */
+export interface DroppedCounts {
+  /** Dropped by sampleRate or the sampler callback */
+  sampled: number
+  /** Dropped by maxNoticesPerPageLoad */
+  pageLoadLimit: number
+  /** Dropped by maxNoticesPerMinute */
+  minuteLimit: number
+}
 
 /**
  * Configuration options for the Checkend SDK
@@ -99,18 +308,88 @@ export interface ConfigOptions {
   ignoredExceptions?: (string | RegExp)[]
   /** Keys to filter from context/request data */
   filterKeys?: string[]
-  /** Callbacks to run before sending (return false to skip) */
+  /** Scrub card numbers, emails, JWTs, Bearer tokens and IBANs from messages, URLs and context values (default: true) */
+  scrubValues?: boolean
+  /** More patterns to scrub from the same values, whatever scrubValues is set to */
+  scrubPatterns?: RegExp[]
+  /** Callbacks to run before sending (return false or null to skip, or a replacement notice) */
   beforeNotify?: BeforeNotifyCallback[]
+  /** Milliseconds to wait for an async beforeNotify callback before sending anyway (default: 1000) */
+  beforeNotifyTimeout?: number
+  /** Callbacks to run after a notice is sent or fails to send */
+  afterNotify?: AfterNotifyCallback[]
   /** Enable debug logging (default: false) */
   debug?: boolean
   /** Capture unhandled errors (default: true) */
   captureUnhandled?: boolean
   /** Capture unhandled promise rejections (default: true) */
   captureUnhandledRejections?: boolean
+  /** Report failed <script>, <link> and <img> loads as ResourceLoadError (default: false) */
+  captureResourceErrors?: boolean
+  /** Integrations to add or replace by name, or a function receiving the defaults and returning the list */
+  integrations?: IntegrationsOption
+  /** Report failed fetch/XHR requests as errors (default: false) */
+  captureNetworkErrors?: boolean
+  /** HTTP statuses or [min, max] ranges reported as errors (default: [[500, 599]]) */
+  networkErrorStatuses?: (number | [number, number])[]
+  /** Only report requests to URLs matching these patterns (default: all) */
+  networkAllowUrls?: (string | RegExp)[]
+  /** Never report requests to URLs matching these patterns */
+  networkDenyUrls?: (string | RegExp)[]
+  /** Maximum size of a notice payload in bytes; larger ones are trimmed (default: 64000) */
+  maxPayloadSize?: number
   /** Maximum number of notices to queue (default: 100) */
   maxQueueSize?: number
+  /** Gzip request bodies sent with fetch where CompressionStream is available (default: false) */
+  compress?: boolean
+  /** Send queued notices in batches to the batch ingestion route (default: false) */
+  batch?: boolean
+  /** Milliseconds to wait for more notices before sending a batch (default: 1000) */
+  batchInterval?: number
+  /** Maximum notices per batch (default: 20) */
+  batchMaxSize?: number
+  /** Maximum size of a batch in bytes (default: 256000) */
+  batchMaxBytes?: number
+  /** Maximum delivery attempts per notice, including the first (default: 3) */
+  maxAttempts?: number
+  /** Ceiling for the retry backoff delay in milliseconds (default: 30000) */
+  maxBackoff?: number
   /** Use sendBeacon for sending (default: true) */
   useSendBeacon?: boolean
+  /** Maximum number of breadcrumbs to keep, 0 disables them (default: 30) */
+  maxBreadcrumbs?: number
+  /** Store undelivered notices in IndexedDB/localStorage and retry them later (default: false) */
+  persistQueue?: boolean
+  /** Maximum size of stored notices in bytes (default: 512000) */
+  persistMaxBytes?: number
+  /** Maximum age of a stored notice in milliseconds (default: 86400000, 24 hours) */
+  persistMaxAge?: number
+  /** Fraction of notices to send, from 0 to 1 (default: 1) */
+  sampleRate?: number
+  /** Per-notice sample rate, e.g. by error class or fingerprint */
+  sampler?: SamplerCallback
+  /** Maximum notices sent per page load (default: unlimited) */
+  maxNoticesPerPageLoad?: number
+  /** Maximum notices sent per minute (default: unlimited) */
+  maxNoticesPerMinute?: number
+  /** Window in milliseconds for suppressing repeats of the same error, 0 disables (default: 5000) */
+  dedupeWindow?: number
+  /** Post notices to this target for the page's client to send, e.g. `self` in a worker (default: null) */
+  postMessageTarget?: MessageTarget | null
+  /** Post notices to this URL on your own server, which adds the key and forwards them (default: null) */
+  tunnel?: string | null
+  /** Deliver notices through this transport instead of sendBeacon and fetch (default: null) */
+  transport?: Transport | null
+}
+
+/**
+ * An error linked to the reported one through `cause` or AggregateError's `errors`
+ */
+export interface ErrorCause {
+  errorClass: string
+  message: string
+  backtrace: string[]
+  frames: StackFrame[]
 }
 
 /**
@@ -120,11 +399,19 @@ export interface Notice {
   errorClass: string
   message: string
   backtrace: string[]
+  frames: StackFrame[]
   fingerprint?: string
   tags: string[]
   context: Context
   request: RequestInfo
   user: User
+  breadcrumbs: Breadcrumb[]
   environment?: string
   occurredAt: string
+  /** Errors linked through `cause` and AggregateError's `errors`, depth first */
+  causes?: ErrorCause[]
+  /** Notices dropped by sampling or caps before this one */
+  dropped?: DroppedCounts
+  /** Set on dedupe follow-ups: repeats suppressed since the first notice */
+  occurrences?: number
 }
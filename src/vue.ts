@@ -0,0 +1,171 @@
+import { getDefaultClient } from './index'
+import type { CheckendClient } from './checkend'
+import type { Context } from './types'
+
+/**
+ * The parts of a Vue component instance the plugin reads.
+ * Typed structurally so the plugin works with Vue 2 and 3 without importing Vue.
+ */
+export interface VueComponentInstance {
+  $options?: { name?: string; __name?: string; __file?: string; _componentTag?: string }
+  $props?: Record<string, unknown>
+  $route?: VueRoute
+  $root?: VueComponentInstance | null
+}
+
+/**
+ * The parts of a vue-router route the plugin reads
+ */
+export interface VueRoute {
+  fullPath?: string
+  path?: string
+  name?: string | symbol | null
+}
+
+/**
+ * A Vue 3 app or the Vue 2 constructor
+ */
+export interface VueApp {
+  config: {
+    // Method syntax keeps these compatible with Vue's own instance types
+    errorHandler?(error: unknown, instance: VueComponentInstance | null, info: string): void
+    warnHandler?(message: string, instance: VueComponentInstance | null, trace: string): void
+    globalProperties?: Record<string, unknown>
+  }
+}
+
+/**
+ * Options for the Vue plugin
+ */
+export interface CheckendVueOptions {
+  /** Client to report to (default: the module-level client) */
+  client?: CheckendClient
+  /** Attach the failing component's props (sanitized) to context (default: false) */
+  attachProps?: boolean
+  /** Record Vue warnings as breadcrumbs (default: false) */
+  captureWarnings?: boolean
+}
+
+/**
+ * Vue plugin that reports component errors to Checkend.
+ *
+ * Vue routes component errors to app.config.errorHandler instead of
+ * window.onerror; the plugin chains any handler already installed.
+ *
+ * @example
+ * import { CheckendVue } from '@checkend/browser/vue'
+ *
+ * app.use(CheckendVue, { attachProps: true })
+ */
+export const CheckendVue = {
+  install(app: VueApp, options: CheckendVueOptions = {}): void {
+    installErrorHandler(app, options)
+
+    if (options.captureWarnings) {
+      installWarnHandler(app, options)
+    }
+  },
+}
+
+function installErrorHandler(app: VueApp, options: CheckendVueOptions): void {
+  const originalErrorHandler = app.config.errorHandler
+
+  app.config.errorHandler = (error: unknown, instance: VueComponentInstance | null, info: string): void => {
+    const client = options.client ?? getDefaultClient()
+
+    client.notify(toError(error), {
+      context: buildContext(app, instance, info, client, options),
+      tags: ['vue'],
+    })
+
+    if (originalErrorHandler) {
+      originalErrorHandler.call(app, error, instance, info)
+    } else {
+      // Vue only logs errors when no handler is set; keep them visible
+      console.error(error)
+    }
+  }
+}
+
+function installWarnHandler(app: VueApp, options: CheckendVueOptions): void {
+  const originalWarnHandler = app.config.warnHandler
+
+  app.config.warnHandler = (message: string, instance: VueComponentInstance | null, trace: string): void => {
+    if (originalWarnHandler) {
+      const client = options.client ?? getDefaultClient()
+      client.addBreadcrumb({
+        type: 'console',
+        category: 'vue',
+        level: 'warning',
+        message,
+        data: { component: componentName(instance), trace },
+      })
+      originalWarnHandler.call(app, message, instance, trace)
+    } else {
+      // Vue stops printing warnings once a handler is set. Print it ourselves;
+      // the console breadcrumb recorder picks it up from there.
+      console.warn(`[Vue warn]: ${message}${trace}`)
+    }
+  }
+}
+
+function buildContext(
+  app: VueApp,
+  instance: VueComponentInstance | null,
+  info: string,
+  client: CheckendClient,
+  options: CheckendVueOptions
+): Context {
+  const vue: Record<string, unknown> = {
+    component: componentName(instance),
+    lifecycleHook: info,
+  }
+
+  const file = instance?.$options?.__file
+  if (file) {
+    vue.file = file
+  }
+
+  if (options.attachProps && instance?.$props) {
+    vue.props = { ...instance.$props }
+  }
+
+  const context: Context = { vue }
+  const route = currentRoute(app, instance, client)
+  if (route) {
+    context.route = route
+  }
+  return context
+}
+
+function componentName(instance: VueComponentInstance | null): string {
+  if (!instance) return '<Anonymous>'
+  if (instance.$root === instance) return '<Root>'
+
+  const options = instance.$options
+  return options?.name ?? options?.__name ?? options?._componentTag ?? '<Anonymous>'
+}
+
+function currentRoute(
+  app: VueApp,
+  instance: VueComponentInstance | null,
+  client: CheckendClient
+): Record<string, unknown> | null {
+  const router = app.config.globalProperties?.$router as { currentRoute?: { value?: VueRoute } } | undefined
+  const route = instance?.$route ?? router?.currentRoute?.value
+  if (!route) return null
+
+  const path = route.fullPath ?? route.path
+  return {
+    path: path === undefined ? undefined : client.sanitizeUrl(path),
+    name: typeof route.name === 'symbol' ? route.name.toString() : route.name ?? undefined,
+  }
+}
+
+function toError(value: unknown): Error {
+  if (value instanceof Error) return value
+
+  const error = new Error(typeof value === 'string' ? value : 'Non-Error value thrown in a Vue component')
+  error.name = 'VueError'
+  return error
+}
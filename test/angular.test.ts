@@ -0,0 +1,135 @@
+// Angular's published packages are partially compiled and need the JIT compiler outside the CLI
+import '@angular/compiler'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { ErrorHandler, Injector } from '@angular/core'
+import { Router } from '@angular/router'
+import { CheckendErrorHandler, provideCheckendErrorHandler, unwrapError } from '../src/angular'
+import { configure, reset, flush } from '../src/index'
+import { Testing } from '../src/testing'
+
+function createHandler(routerUrl = '/orders/42', options = {}): ErrorHandler {
+  const injector = Injector.create({
+    providers: [
+      provideCheckendErrorHandler({ router: Router, ...options }),
+      { provide: Router, useValue: { url: routerUrl } },
+    ],
+  })
+  return injector.get(ErrorHandler)
+}
+
+describe('Angular ErrorHandler', () => {
+  beforeEach(() => {
+    Testing.setup()
+    configure({ apiKey: 'test-key', enabled: true })
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    reset()
+    Testing.teardown()
+  })
+
+  it('is provided as the ErrorHandler', () => {
+    expect(createHandler()).toBeInstanceOf(CheckendErrorHandler)
+  })
+
+  it('reports errors with the router URL in request', async () => {
+    createHandler().handleError(new TypeError('Cannot read properties of undefined'))
+    await flush()
+
+    const notice = Testing.lastNotice!
+    expect(notice.errorClass).toBe('TypeError')
+    expect(notice.tags).toEqual(['angular'])
+    expect(notice.request.routerUrl).toBe('/orders/42')
+    expect(notice.request.url).toBe(window.location.href)
+  })
+
+  it('filters sensitive query parameters from the router URL', async () => {
+    createHandler('/reset?token=abc123&step=2').handleError(new Error('Reset failed'))
+    await flush()
+
+    expect(Testing.lastNotice!.request.routerUrl).toBe('/reset?token=%5BFILTERED%5D&step=2')
+  })
+
+  it('unwraps zone.js promise rejections', async () => {
+    const original = new Error('Order not found')
+    const wrapped = Object.assign(new Error('Uncaught (in promise): Error: Order not found'), { rejection: original })
+
+    createHandler().handleError(wrapped)
+    await flush()
+
+    expect(Testing.lastNotice?.message).toBe('Order not found')
+  })
+
+  it('reports HttpErrorResponse with status details', async () => {
+    const response = {
+      name: 'HttpErrorResponse',
+      message: 'Http failure response for /api/orders: 500 Internal Server Error',
+      status: 500,
+      statusText: 'Internal Server Error',
+      url: '/api/orders',
+      error: { detail: 'stack trace from the server' },
+    }
+
+    createHandler().handleError(response)
+    await flush()
+
+    const notice = Testing.lastNotice!
+    expect(notice.errorClass).toBe('HttpErrorResponse')
+    expect(notice.message).toBe('Http failure response for /api/orders: 500 Internal Server Error')
+    expect(notice.context.http).toEqual({ status: 500, statusText: 'Internal Server Error', url: '/api/orders' })
+  })
+
+  it('removes zone.js frames from the backtrace', async () => {
+    const error = new Error('Boom')
+    error.stack = [
+      'Error: Boom',
+      '    at OrderComponent.load (https://example.com/main.js:10:5)',
+      '    at _ZoneDelegate.invoke (https://example.com/polyfills.js:368:26)',
+      '    at Zone.run (https://example.com/polyfills.js:130:43)',
+      '    at https://example.com/zone.js:1:1',
+    ].join('\n')
+
+    createHandler().handleError(error)
+    await flush()
+
+    expect(Testing.lastNotice?.backtrace).toEqual(['at OrderComponent.load (https://example.com/main.js:10:5)'])
+  })
+
+  it('keeps logging errors to the console by default', () => {
+    const error = new Error('Boom')
+
+    createHandler().handleError(error)
+
+    expect(console.error).toHaveBeenCalledWith('ERROR', error)
+  })
+
+  it('leaves out the router URL without the router option', async () => {
+    createHandler('/orders/42', { router: undefined }).handleError(new Error('No router'))
+    await flush()
+
+    expect(Testing.lastNotice?.request.routerUrl).toBeUndefined()
+  })
+
+  it('works without an injector', async () => {
+    new CheckendErrorHandler({ logErrors: false }).handleError('Something broke')
+    await flush()
+
+    expect(Testing.lastNotice?.errorClass).toBe('AngularError')
+    expect(Testing.lastNotice?.request.routerUrl).toBeUndefined()
+    expect(console.error).not.toHaveBeenCalled()
+  })
+})
+
+describe('unwrapError', () => {
+  it('follows ngOriginalError', () => {
+    const original = new Error('inner')
+    expect(unwrapError({ ngOriginalError: original })).toBe(original)
+  })
+
+  it('leaves plain errors alone', () => {
+    const error = new Error('plain')
+    expect(unwrapError(error)).toBe(error)
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Client } from '../src/client'
+import { Configuration } from '../src/configuration'
+import { createNotice } from '../src/notice'
+import type { ConfigOptions, NoticePayload } from '../src/types'
+
+function createClient(options: Partial<ConfigOptions> = {}): Client {
+  return new Client(new Configuration({ apiKey: 'test-key', useSendBeacon: false, batch: true, ...options }))
+}
+
+function requestUrls(fetchMock: ReturnType<typeof vi.fn>): string[] {
+  return fetchMock.mock.calls.map(([url]) => url as string)
+}
+
+function requestBodies(fetchMock: ReturnType<typeof vi.fn>): { notices: NoticePayload[] }[] {
+  return fetchMock.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string))
+}
+
+describe('batched delivery', () => {
+  const originalFetch = globalThis.fetch
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    fetchMock = vi.fn().mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.endsWith('/batch')) {
+        const { notices } = JSON.parse(init.body as string)
+        const responses = notices.map((_: unknown, index: number) => ({ id: index + 1, problem_id: 9 }))
+        return new Response(JSON.stringify({ notices: responses }), { status: 201 })
+      }
+      return new Response('{"id":1,"problem_id":9}', { status: 201 })
+    })
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('sends notices queued within the interval as one request', async () => {
+    const client = createClient()
+
+    client.queueNotice(createNotice(new Error('First')))
+    client.queueNotice(createNotice(new Error('Second')))
+    await vi.advanceTimersByTimeAsync(999)
+    expect(fetchMock).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1)
+
+    expect(requestUrls(fetchMock)).toEqual(['https://app.checkend.io/ingest/v1/errors/batch'])
+    const [body] = requestBodies(fetchMock)
+    expect(body.notices.map((notice) => notice.error.message)).toEqual(['First', 'Second'])
+  })
+
+  it('sends as soon as a batch is full', async () => {
+    const client = createClient({ batchMaxSize: 2 })
+
+    client.queueNotice(createNotice(new Error('First')))
+    client.queueNotice(createNotice(new Error('Second')))
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(requestBodies(fetchMock)[0].notices).toHaveLength(2)
+  })
+
+  it('splits batches at batchMaxBytes', async () => {
+    const client = createClient({ batchMaxBytes: 1 })
+
+    client.queueNotice(createNotice(new Error('First')))
+    client.queueNotice(createNotice(new Error('Second')))
+    await client.flush()
+
+    expect(requestBodies(fetchMock).map((body) => body.notices.length)).toEqual([1, 1])
+  })
+
+  it('passes each notice its own response', async () => {
+    const afterNotify = vi.fn()
+    const client = createClient({ afterNotify: [afterNotify] })
+
+    const first = createNotice(new Error('First'))
+    const second = createNotice(new Error('Second'))
+    client.queueNotice(first)
+    client.queueNotice(second)
+    await client.flush()
+
+    expect(afterNotify).toHaveBeenCalledWith(first, { response: { id: 1, problem_id: 9 }, error: undefined })
+    expect(afterNotify).toHaveBeenCalledWith(second, { response: { id: 2, problem_id: 9 }, error: undefined })
+  })
+
+  it('falls back to single sends when the server has no batch route', async () => {
+    fetchMock.mockImplementationOnce(async () => new Response('', { status: 404 }))
+    const client = createClient()
+
+    client.queueNotice(createNotice(new Error('First')))
+    client.queueNotice(createNotice(new Error('Second')))
+    await client.flush()
+
+    expect(requestUrls(fetchMock)).toEqual([
+      'https://app.checkend.io/ingest/v1/errors/batch',
+      'https://app.checkend.io/ingest/v1/errors',
+      'https://app.checkend.io/ingest/v1/errors',
+    ])
+
+    // And keeps sending singly afterwards
+    client.queueNotice(createNotice(new Error('Third')))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(requestUrls(fetchMock)[3]).toBe('https://app.checkend.io/ingest/v1/errors')
+  })
+
+  it('sends the pending batch right away on flush', async () => {
+    const client = createClient({ batchInterval: 60000 })
+
+    client.queueNotice(createNotice(new Error('First')))
+    await client.flush()
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(requestBodies(fetchMock)[0].notices).toHaveLength(1)
+  })
+
+  it('sends immediately when batching is off', async () => {
+    const client = createClient({ batch: false })
+
+    client.queueNotice(createNotice(new Error('First')))
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(requestUrls(fetchMock)).toEqual(['https://app.checkend.io/ingest/v1/errors'])
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Breadcrumbs, installBreadcrumbRecorders, describeElement } from '../src/breadcrumbs'
+import { Configuration } from '../src/configuration'
+import { SanitizeFilter } from '../src/filters/sanitize'
+
+describe('Breadcrumbs', () => {
+  it('records breadcrumbs with a timestamp', () => {
+    const breadcrumbs = new Breadcrumbs(10)
+
+    breadcrumbs.add({ message: 'Opened cart', data: { items: 2 } })
+
+    const [crumb] = breadcrumbs.getAll()
+    expect(crumb.type).toBe('manual')
+    expect(crumb.level).toBe('info')
+    expect(crumb.message).toBe('Opened cart')
+    expect(crumb.data).toEqual({ items: 2 })
+    expect(crumb.timestamp).toBeDefined()
+  })
+
+  it('evicts the oldest breadcrumbs when full', () => {
+    const breadcrumbs = new Breadcrumbs(3)
+
+    for (let i = 1; i <= 5; i++) {
+      breadcrumbs.add({ message: `crumb ${i}` })
+    }
+
+    expect(breadcrumbs.size).toBe(3)
+    expect(breadcrumbs.getAll().map((c) => c.message)).toEqual(['crumb 3', 'crumb 4', 'crumb 5'])
+  })
+
+  it('records nothing when max is 0', () => {
+    const breadcrumbs = new Breadcrumbs(0)
+    breadcrumbs.add({ message: 'ignored' })
+    expect(breadcrumbs.getAll()).toEqual([])
+  })
+
+  it('clears all breadcrumbs', () => {
+    const breadcrumbs = new Breadcrumbs(3)
+    breadcrumbs.add({ message: 'one' })
+    breadcrumbs.clear()
+    expect(breadcrumbs.size).toBe(0)
+  })
+})
+
+describe('describeElement', () => {
+  it('builds a selector from tag, id and classes', () => {
+    document.body.innerHTML = '<div id="app"><form class="checkout"><button class="btn primary">Pay</button></form></div>'
+    const button = document.querySelector('button')
+
+    expect(describeElement(button)).toBe('div#app > form.checkout > button.btn.primary')
+  })
+
+  it('returns an empty string for non-elements', () => {
+    expect(describeElement(null)).toBe('')
+    expect(describeElement(window)).toBe('')
+  })
+})
+
+describe('installBreadcrumbRecorders', () => {
+  let breadcrumbs: Breadcrumbs
+  let uninstall: () => void
+
+  beforeEach(() => {
+    breadcrumbs = new Breadcrumbs(30)
+    uninstall = installBreadcrumbRecorders(breadcrumbs, new Configuration({ apiKey: 'test-key' }))
+  })
+
+  afterEach(() => {
+    uninstall()
+    document.body.innerHTML = ''
+  })
+
+  it('records clicks', () => {
+    document.body.innerHTML = '<button id="submit">Submit</button>'
+    document.getElementById('submit')!.click()
+
+    const crumb = breadcrumbs.getAll()[0]
+    expect(crumb.type).toBe('click')
+    expect(crumb.message).toBe('button#submit')
+  })
+
+  it('records console calls', () => {
+    uninstall()
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    uninstall = installBreadcrumbRecorders(breadcrumbs, new Configuration({ apiKey: 'test-key' }))
+
+    console.warn('Low stock', { sku: 'A1' })
+
+    const crumb = breadcrumbs.getAll()[0]
+    expect(crumb.type).toBe('console')
+    expect(crumb.level).toBe('warning')
+    expect(crumb.message).toBe('Low stock {"sku":"A1"}')
+    expect(warnSpy).toHaveBeenCalled()
+
+    uninstall()
+    warnSpy.mockRestore()
+  })
+
+  it('skips the SDK own console output', () => {
+    uninstall()
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    uninstall = installBreadcrumbRecorders(breadcrumbs, new Configuration({ apiKey: 'test-key' }))
+
+    console.log('[Checkend] Started')
+
+    expect(breadcrumbs.size).toBe(0)
+
+    uninstall()
+    logSpy.mockRestore()
+  })
+
+  it('records history navigations', () => {
+    const from = window.location.href
+    history.pushState({}, '', '/checkout')
+
+    const crumb = breadcrumbs.getAll()[0]
+    expect(crumb.type).toBe('navigation')
+    expect(crumb.data?.from).toBe(from)
+    expect(crumb.data?.to).toContain('/checkout')
+  })
+
+  it('records fetch requests with status and duration', async () => {
+    const originalFetch = globalThis.fetch
+    uninstall()
+    globalThis.fetch = vi.fn().mockResolvedValue(new Response('', { status: 404 })) as typeof fetch
+    uninstall = installBreadcrumbRecorders(breadcrumbs, new Configuration({ apiKey: 'test-key' }))
+
+    await fetch('https://api.example.com/items', { method: 'post' })
+
+    const crumb = breadcrumbs.getAll()[0]
+    expect(crumb.type).toBe('request')
+    expect(crumb.level).toBe('error')
+    expect(crumb.message).toBe('POST https://api.example.com/items [404]')
+    expect(crumb.data?.status_code).toBe(404)
+    expect(typeof crumb.data?.duration).toBe('number')
+
+    uninstall()
+    globalThis.fetch = originalFetch
+  })
+
+  it('filters request URLs as they are recorded', async () => {
+    const originalFetch = globalThis.fetch
+    uninstall()
+    globalThis.fetch = vi.fn().mockResolvedValue(new Response('', { status: 200 })) as typeof fetch
+    const filter = new SanitizeFilter(['token'])
+    uninstall = installBreadcrumbRecorders(breadcrumbs, new Configuration({ apiKey: 'test-key' }), (url) =>
+      filter.sanitizeUrl(url)
+    )
+
+    await fetch('https://api.example.com/items?token=abc123&page=2')
+
+    const crumb = breadcrumbs.getAll()[0]
+    expect(crumb.message).toBe('GET https://api.example.com/items?token=%5BFILTERED%5D&page=2 [200]')
+    expect(crumb.data?.url).toBe('https://api.example.com/items?token=%5BFILTERED%5D&page=2')
+
+    uninstall()
+    globalThis.fetch = originalFetch
+  })
+
+  it('skips requests to the ingestion API', async () => {
+    const originalFetch = globalThis.fetch
+    uninstall()
+    globalThis.fetch = vi.fn().mockResolvedValue(new Response('{}', { status: 201 })) as typeof fetch
+    uninstall = installBreadcrumbRecorders(breadcrumbs, new Configuration({ apiKey: 'test-key' }))
+
+    await fetch('https://app.checkend.io/ingest/v1/errors', { method: 'POST' })
+
+    expect(breadcrumbs.size).toBe(0)
+
+    uninstall()
+    globalThis.fetch = originalFetch
+  })
+
+  it('restores patched globals when uninstalled', () => {
+    uninstall()
+    const originalPushState = history.pushState
+
+    uninstall = installBreadcrumbRecorders(breadcrumbs, new Configuration({ apiKey: 'test-key' }))
+    expect(history.pushState).not.toBe(originalPushState)
+
+    uninstall()
+    expect(history.pushState).toBe(originalPushState)
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { CheckendClient } from '../src/checkend'
+import Checkend, { configure, getContext, getDefaultClient, reset } from '../src/index'
+
+function dispatchError(message: string): void {
+  window.dispatchEvent(
+    new ErrorEvent('error', { message, filename: 'https://example.com/app.js', lineno: 1, colno: 1, error: new Error('Boom') })
+  )
+}
+
+describe('CheckendClient', () => {
+  const originalFetch = globalThis.fetch
+  let fetchMock: ReturnType<typeof vi.fn>
+  let clients: CheckendClient[]
+
+  function createClient(apiKey: string, options = {}): CheckendClient {
+    const client = new CheckendClient({ apiKey, enabled: true, useSendBeacon: false, ...options })
+    clients.push(client)
+    return client
+  }
+
+  function sentKeys(): string[] {
+    return fetchMock.mock.calls.map(([, init]) => {
+      const headers = (init as RequestInit).headers as Record<string, string>
+      return headers['Checkend-Ingestion-Key']
+    })
+  }
+
+  beforeEach(() => {
+    clients = []
+    fetchMock = vi.fn().mockImplementation(async () => new Response('{"id":1,"problem_id":1}', { status: 201 }))
+    globalThis.fetch = fetchMock as typeof fetch
+  })
+
+  afterEach(() => {
+    for (const client of clients) client.reset()
+    reset()
+    globalThis.fetch = originalFetch
+  })
+
+  it('reports each instance to its own project', async () => {
+    const app = createClient('app-key')
+    const widget = createClient('widget-key')
+
+    app.notify(new Error('App error'))
+    widget.notify(new Error('Widget error'))
+    await Promise.all([app.flush(), widget.flush()])
+
+    expect(sentKeys()).toEqual(['app-key', 'widget-key'])
+  })
+
+  it('keeps context separate per instance', async () => {
+    const app = createClient('app-key')
+    const widget = createClient('widget-key')
+
+    app.setContext({ owner: 'app' })
+    widget.setContext({ owner: 'widget' })
+
+    expect(app.getContext()).toEqual({ owner: 'app' })
+    expect(widget.getContext()).toEqual({ owner: 'widget' })
+  })
+
+  it('does not report until configured', async () => {
+    const client = new CheckendClient()
+
+    client.notify(new Error('Test'))
+    await client.flush()
+
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('reports unhandled errors from every instance', async () => {
+    const app = createClient('app-key')
+    const widget = createClient('widget-key')
+
+    dispatchError('Uncaught Error: Boom')
+    await Promise.all([app.flush(), widget.flush()])
+
+    expect(sentKeys().sort()).toEqual(['app-key', 'widget-key'])
+  })
+
+  it('keeps other instances reporting when one stops', async () => {
+    const app = createClient('app-key')
+    const widget = createClient('widget-key')
+
+    widget.stop()
+    dispatchError('Uncaught Error: Boom')
+    await app.flush()
+
+    expect(sentKeys()).toEqual(['app-key'])
+  })
+
+  it('leaves window.onerror to the host page', () => {
+    const hostHandler = vi.fn()
+    window.onerror = hostHandler
+
+    const app = createClient('app-key')
+    expect(window.onerror).toBe(hostHandler)
+
+    // A handler installed after ours survives stop()
+    const laterHandler = vi.fn()
+    window.onerror = laterHandler
+    app.stop()
+
+    expect(window.onerror).toBe(laterHandler)
+    window.onerror = null
+  })
+
+  it('backs the module-level API with the default instance', () => {
+    configure({ apiKey: 'test-key', enabled: true })
+
+    getDefaultClient().setContext({ source: 'instance' })
+
+    expect(getContext().source).toBe('instance')
+    expect(Checkend.getDefaultClient()).toBe(getDefaultClient())
+  })
+})
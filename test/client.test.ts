@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Client } from '../src/client'
+import { parseRetryAfter } from '../src/transports'
+import { Configuration } from '../src/configuration'
+import { createNotice } from '../src/notice'
+import type { ConfigOptions } from '../src/types'
+
+function created(): Response {
+  return new Response(JSON.stringify({ id: 1, problem_id: 2 }), { status: 201 })
+}
+
+function createClient(options: Partial<ConfigOptions> = {}): Client {
+  return new Client(new Configuration({ apiKey: 'test-key', useSendBeacon: false, ...options }))
+}
+
+describe('Client', () => {
+  const originalFetch = globalThis.fetch
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    fetchMock = vi.fn()
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('retries', () => {
+    it('retries server errors with exponential backoff', async () => {
+      fetchMock
+        .mockResolvedValueOnce(new Response('', { status: 503 }))
+        .mockResolvedValueOnce(new Response('', { status: 500 }))
+        .mockResolvedValueOnce(created())
+
+      const result = createClient().sendNotice(createNotice(new Error('Test')))
+
+      await vi.advanceTimersByTimeAsync(0)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(2000)
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+
+      expect(await result).toEqual({ id: 1, problem_id: 2 })
+    })
+
+    it('retries network errors', async () => {
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValueOnce(created())
+
+      const result = createClient().sendNotice(createNotice(new Error('Test')))
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(await result).toEqual({ id: 1, problem_id: 2 })
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('gives up after maxAttempts', async () => {
+      fetchMock.mockImplementation(async () => new Response('', { status: 502 }))
+
+      const result = createClient({ maxAttempts: 2 }).sendNotice(createNotice(new Error('Test')))
+      await vi.advanceTimersByTimeAsync(10000)
+
+      expect(await result).toBeNull()
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('caps the backoff delay at maxBackoff', async () => {
+      fetchMock.mockImplementation(async () => new Response('', { status: 500 }))
+
+      createClient({ maxAttempts: 4, maxBackoff: 1500 }).sendNotice(createNotice(new Error('Test')))
+
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(1500)
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+      await vi.advanceTimersByTimeAsync(1500)
+      expect(fetchMock).toHaveBeenCalledTimes(4)
+    })
+
+    it.each([400, 401, 422])('does not retry %i responses', async (status) => {
+      fetchMock.mockImplementation(async () => new Response('', { status }))
+
+      const result = createClient().sendNotice(createNotice(new Error('Test')))
+      await vi.advanceTimersByTimeAsync(10000)
+
+      expect(await result).toBeNull()
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('rate limiting', () => {
+    it('pauses all sending for the Retry-After duration', async () => {
+      fetchMock
+        .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '5' } }))
+        .mockImplementation(async () => created())
+
+      const client = createClient()
+      client.queueNotice(createNotice(new Error('First')))
+      client.queueNotice(createNotice(new Error('Second')))
+
+      await vi.advanceTimersByTimeAsync(4999)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(1)
+      await client.flush()
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('does not wait out a Retry-After longer than maxBackoff', async () => {
+      const afterNotify = vi.fn()
+      fetchMock.mockResolvedValue(new Response('', { status: 429, headers: { 'Retry-After': '3600' } }))
+
+      const client = createClient({ maxBackoff: 10000, afterNotify: [afterNotify] })
+      client.queueNotice(createNotice(new Error('First')))
+      client.queueNotice(createNotice(new Error('Second')))
+      await client.flush()
+
+      // The second notice is not sent into the rate limit
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(afterNotify).toHaveBeenCalledTimes(2)
+      expect(afterNotify.mock.calls[1][1].error.message).toBe('Rate limited (429)')
+    })
+
+    it('persists notices held up by a long rate limit', async () => {
+      fetchMock.mockResolvedValue(new Response('', { status: 429, headers: { 'Retry-After': '3600' } }))
+
+      const client = createClient({ persistQueue: true })
+      client.queueNotice(createNotice(new Error('Limited')))
+      await client.flush()
+
+      expect(localStorage.getItem('checkend:queue:test-key')).toContain('Limited')
+      localStorage.clear()
+    })
+
+    it('does not use sendBeacon while rate limited', async () => {
+      const sendBeacon = vi.fn().mockReturnValue(true)
+      vi.stubGlobal('navigator', { ...navigator, sendBeacon })
+      fetchMock
+        .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '60' } }))
+        .mockImplementation(async () => created())
+
+      const client = createClient({ useSendBeacon: true, maxAttempts: 1 })
+      client.queueNotice(createNotice(new Error('First')))
+      await client.flush()
+
+      client.sendNotice(createNotice(new Error('Second')))
+      expect(sendBeacon).not.toHaveBeenCalled()
+
+      vi.unstubAllGlobals()
+    })
+  })
+
+  describe('flush', () => {
+    it('resolves once retries have finished', async () => {
+      fetchMock.mockResolvedValueOnce(new Response('', { status: 500 })).mockResolvedValueOnce(created())
+
+      const client = createClient()
+      client.queueNotice(createNotice(new Error('Test')))
+
+      let flushed = false
+      const flush = client.flush().then(() => {
+        flushed = true
+      })
+
+      await vi.advanceTimersByTimeAsync(500)
+      expect(flushed).toBe(false)
+
+      await vi.advanceTimersByTimeAsync(500)
+      await flush
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('parses delay seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120000)
+  })
+
+  it('parses HTTP dates', () => {
+    const date = new Date(Date.now() + 30000).toUTCString()
+    const delay = parseRetryAfter(date)!
+    expect(delay).toBeGreaterThan(28000)
+    expect(delay).toBeLessThanOrEqual(30000)
+  })
+
+  it('returns undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter('soon')).toBeUndefined()
+  })
+})
@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest'
+import { createServer } from 'node:http'
+import type { Server, IncomingHttpHeaders } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { gunzipSync } from 'node:zlib'
+import { Client } from '../src/client'
+import { Configuration } from '../src/configuration'
+import { createNotice } from '../src/notice'
+import { canCompress, gzip } from '../src/compression'
+import { Testing } from '../src/testing'
+import type { ConfigOptions } from '../src/types'
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders
+  body: Buffer
+}
+
+describe('compression', () => {
+  let server: Server
+  let endpoint: string
+  let received: ReceivedRequest[]
+
+  beforeAll(async () => {
+    // Stands in for the Checkend API
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = []
+      req.on('data', (chunk: Buffer) => chunks.push(chunk))
+      req.on('end', () => {
+        received.push({ headers: req.headers, body: Buffer.concat(chunks) })
+        res.writeHead(201, { 'Content-Type': 'application/json' })
+        res.end('{"id":1,"problem_id":2}')
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    received = []
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function createClient(options: Partial<ConfigOptions> = {}): Client {
+    return new Client(new Configuration({ apiKey: 'test-key', endpoint, useSendBeacon: false, ...options }))
+  }
+
+  it('gzips a body that decompresses to the original', async () => {
+    const body = JSON.stringify({ message: 'x'.repeat(1000) })
+    const compressed = await gzip(body)
+
+    expect(compressed.byteLength).toBeLessThan(body.length)
+    expect(gunzipSync(Buffer.from(compressed)).toString()).toBe(body)
+  })
+
+  it('sends gzipped bodies with Content-Encoding when compress is on', async () => {
+    const response = await createClient({ compress: true }).sendNotice(createNotice(new Error('Compressed')))
+
+    expect(response).toEqual({ id: 1, problem_id: 2 })
+    const [request] = received
+    expect(request.headers['content-encoding']).toBe('gzip')
+    expect(request.headers['content-type']).toBe('application/json')
+    const payload = JSON.parse(gunzipSync(request.body).toString())
+    expect(payload.error.message).toBe('Compressed')
+  })
+
+  it('compresses batches', async () => {
+    const client = createClient({ compress: true, batch: true })
+
+    client.queueNotice(createNotice(new Error('First')))
+    client.queueNotice(createNotice(new Error('Second')))
+    await client.flush()
+
+    const [request] = received
+    expect(request.headers['content-encoding']).toBe('gzip')
+    expect(JSON.parse(gunzipSync(request.body).toString()).notices).toHaveLength(2)
+  })
+
+  it('sends plain JSON by default', async () => {
+    await createClient().sendNotice(createNotice(new Error('Plain')))
+
+    const [request] = received
+    expect(request.headers['content-encoding']).toBeUndefined()
+    expect(JSON.parse(request.body.toString()).error.message).toBe('Plain')
+  })
+
+  it('falls back to plain JSON without CompressionStream', async () => {
+    vi.stubGlobal('CompressionStream', undefined)
+    expect(canCompress()).toBe(false)
+
+    await createClient({ compress: true }).sendNotice(createNotice(new Error('Plain')))
+
+    const [request] = received
+    expect(request.headers['content-encoding']).toBeUndefined()
+    expect(JSON.parse(request.body.toString()).error.message).toBe('Plain')
+  })
+
+  it('captures gzipped notices in testing mode', async () => {
+    Testing.setup()
+    try {
+      await createClient({ compress: true }).sendNotice(createNotice(new Error('Captured')))
+
+      expect(Testing.lastNotice?.message).toBe('Captured')
+      expect(received).toHaveLength(0)
+    } finally {
+      Testing.teardown()
+    }
+  })
+})
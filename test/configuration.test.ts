@@ -36,6 +36,88 @@ describe('Configuration', () => {
       expect(config.filterKeys).toContain('password')
       expect(config.filterKeys).toContain('customSecret')
     })
+
+    it('scrubs values by default', () => {
+      const config = new Configuration({ apiKey: 'test-key' })
+      expect(config.scrubValues).toBe(true)
+      expect(config.scrubPatterns).toEqual([])
+    })
+  })
+
+  describe('retries', () => {
+    it('uses default retry settings', () => {
+      const config = new Configuration({ apiKey: 'test-key' })
+      expect(config.maxAttempts).toBe(3)
+      expect(config.maxBackoff).toBe(30000)
+    })
+
+    it('requires at least one attempt', () => {
+      const config = new Configuration({ apiKey: 'test-key', maxAttempts: 0 })
+      expect(config.maxAttempts).toBe(1)
+    })
+  })
+
+  describe('persistent queue', () => {
+    it('is disabled by default', () => {
+      const config = new Configuration({ apiKey: 'test-key' })
+      expect(config.persistQueue).toBe(false)
+      expect(config.persistMaxBytes).toBe(512000)
+      expect(config.persistMaxAge).toBe(86400000)
+    })
+
+    it('accepts custom limits', () => {
+      const config = new Configuration({
+        apiKey: 'test-key',
+        persistQueue: true,
+        persistMaxBytes: 1024,
+        persistMaxAge: 60000,
+      })
+      expect(config.persistQueue).toBe(true)
+      expect(config.persistMaxBytes).toBe(1024)
+      expect(config.persistMaxAge).toBe(60000)
+    })
+  })
+
+  describe('network errors', () => {
+    it('is disabled by default', () => {
+      const config = new Configuration({ apiKey: 'test-key' })
+      expect(config.captureNetworkErrors).toBe(false)
+      expect(config.networkErrorStatuses).toEqual([[500, 599]])
+      expect(config.networkAllowUrls).toEqual([])
+      expect(config.networkDenyUrls).toEqual([])
+    })
+
+    it('accepts custom statuses and URL filters', () => {
+      const config = new Configuration({
+        apiKey: 'test-key',
+        captureNetworkErrors: true,
+        networkErrorStatuses: [404, [500, 599]],
+        networkDenyUrls: [/analytics/],
+      })
+      expect(config.captureNetworkErrors).toBe(true)
+      expect(config.networkErrorStatuses).toEqual([404, [500, 599]])
+      expect(config.networkDenyUrls).toEqual([/analytics/])
+    })
+  })
+
+  describe('sampling', () => {
+    it('sends everything by default', () => {
+      const config = new Configuration({ apiKey: 'test-key' })
+      expect(config.sampleRate).toBe(1)
+      expect(config.sampler).toBeNull()
+      expect(config.maxNoticesPerPageLoad).toBe(Infinity)
+      expect(config.maxNoticesPerMinute).toBe(Infinity)
+    })
+
+    it('deduplicates repeats within 5 seconds by default', () => {
+      expect(new Configuration({ apiKey: 'test-key' }).dedupeWindow).toBe(5000)
+      expect(new Configuration({ apiKey: 'test-key', dedupeWindow: 0 }).dedupeWindow).toBe(0)
+    })
+
+    it('clamps sampleRate between 0 and 1', () => {
+      expect(new Configuration({ apiKey: 'test-key', sampleRate: 2 }).sampleRate).toBe(1)
+      expect(new Configuration({ apiKey: 'test-key', sampleRate: -1 }).sampleRate).toBe(0)
+    })
   })
 
   describe('isValid', () => {
@@ -109,5 +191,12 @@ describe('Configuration', () => {
       })
       expect(config.ingestUrl).toBe('https://custom.example.com/ingest/v1/errors')
     })
+
+    it('treats tunnel requests as ingestion requests', () => {
+      const config = new Configuration({ apiKey: 'test-key', tunnel: '/checkend' })
+      expect(config.isIngestUrl('/checkend')).toBe(true)
+      expect(config.isIngestUrl(new URL('/checkend', location.href).href)).toBe(true)
+      expect(config.isIngestUrl('/api/orders')).toBe(false)
+    })
   })
 })
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Deduplicator, dedupeKey } from '../src/dedupe'
+import { createNotice } from '../src/notice'
+import { configure, notify, reset, flush, stop } from '../src/index'
+import { Testing } from '../src/testing'
+import type { Notice } from '../src/types'
+
+function noticeFor(message: string, stack?: string, fingerprint?: string): Notice {
+  const error = new Error(message)
+  error.stack = stack
+  return createNotice(error, { fingerprint })
+}
+
+const STACK = `Error: Boom
+    at render (https://example.com/app.js:10:5)
+    at loop (https://example.com/app.js:20:3)`
+
+describe('dedupeKey', () => {
+  it('combines error class, message and top frames', () => {
+    expect(dedupeKey(noticeFor('Boom', STACK))).toBe(
+      'Error|Boom|https://example.com/app.js:10:5|https://example.com/app.js:20:3'
+    )
+  })
+
+  it('distinguishes errors thrown from different places', () => {
+    const other = STACK.replace('app.js:10:5', 'app.js:99:1')
+    expect(dedupeKey(noticeFor('Boom', STACK))).not.toBe(dedupeKey(noticeFor('Boom', other)))
+  })
+
+  it('uses the fingerprint when set', () => {
+    expect(dedupeKey(noticeFor('Boom', STACK, 'checkout'))).toBe(dedupeKey(noticeFor('Other', undefined, 'checkout')))
+  })
+})
+
+describe('Deduplicator', () => {
+  let followUps: Notice[]
+  let deduplicator: Deduplicator
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    followUps = []
+    deduplicator = new Deduplicator(5000, (notice) => followUps.push(notice))
+  })
+
+  afterEach(() => {
+    deduplicator.clear()
+    vi.useRealTimers()
+  })
+
+  it('suppresses repeats within the window', () => {
+    deduplicator.record(noticeFor('Boom', STACK))
+
+    expect(deduplicator.isDuplicate(noticeFor('Boom', STACK))).toBe(true)
+    expect(deduplicator.isDuplicate(noticeFor('Other', STACK))).toBe(false)
+  })
+
+  it('sends a follow-up with the repeat count when the window closes', () => {
+    deduplicator.record(noticeFor('Boom', STACK))
+    deduplicator.isDuplicate(noticeFor('Boom', STACK))
+    deduplicator.isDuplicate(noticeFor('Boom', STACK))
+
+    vi.advanceTimersByTime(5000)
+
+    expect(followUps).toHaveLength(1)
+    expect(followUps[0].message).toBe('Boom')
+    expect(followUps[0].occurrences).toBe(2)
+  })
+
+  it('leaves the first notice\'s dropped counts off the follow-up', () => {
+    const first = noticeFor('Boom', STACK)
+    first.dropped = { sampled: 3, pageLoadLimit: 0, minuteLimit: 0 }
+    deduplicator.record(first)
+    deduplicator.isDuplicate(noticeFor('Boom', STACK))
+
+    deduplicator.flush()
+
+    expect(followUps[0].dropped).toBeUndefined()
+  })
+
+  it('sends no follow-up when there were no repeats', () => {
+    deduplicator.record(noticeFor('Boom', STACK))
+
+    vi.advanceTimersByTime(5000)
+
+    expect(followUps).toHaveLength(0)
+  })
+
+  it('lets the error through again after the window', () => {
+    deduplicator.record(noticeFor('Boom', STACK))
+
+    vi.advanceTimersByTime(5000)
+
+    expect(deduplicator.isDuplicate(noticeFor('Boom', STACK))).toBe(false)
+  })
+
+  it('sends pending follow-ups on flush', () => {
+    deduplicator.record(noticeFor('Boom', STACK))
+    deduplicator.isDuplicate(noticeFor('Boom', STACK))
+
+    deduplicator.flush()
+
+    expect(followUps[0].occurrences).toBe(1)
+  })
+
+  it('does nothing when the window is 0', () => {
+    const disabled = new Deduplicator(0, (notice) => followUps.push(notice))
+
+    disabled.record(noticeFor('Boom', STACK))
+
+    expect(disabled.isDuplicate(noticeFor('Boom', STACK))).toBe(false)
+  })
+})
+
+describe('deduplication integration', () => {
+  beforeEach(() => {
+    Testing.setup()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    reset()
+    Testing.teardown()
+  })
+
+  it('reports a repeated error once plus a follow-up with the count', async () => {
+    configure({ apiKey: 'test-key', enabled: true })
+    const error = new Error('Boom')
+
+    for (let i = 0; i < 5; i++) {
+      notify(error)
+    }
+    await flush()
+
+    expect(Testing.notices).toHaveLength(2)
+    expect(Testing.notices[0].occurrences).toBeUndefined()
+    expect(Testing.notices[1].occurrences).toBe(4)
+  })
+
+  it('applies the notice caps to follow-ups', async () => {
+    configure({ apiKey: 'test-key', enabled: true, maxNoticesPerPageLoad: 1 })
+    const error = new Error('Boom')
+
+    notify(error)
+    notify(error)
+    await flush()
+
+    expect(Testing.notices).toHaveLength(1)
+    expect(Testing.notices[0].occurrences).toBeUndefined()
+  })
+
+  it('sends no follow-ups once stopped', async () => {
+    vi.useFakeTimers()
+    configure({ apiKey: 'test-key', enabled: true, dedupeWindow: 1000 })
+    const error = new Error('Boom')
+
+    notify(error)
+    notify(error)
+    await vi.advanceTimersByTimeAsync(0)
+    stop()
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(Testing.notices).toHaveLength(1)
+  })
+
+  it('reports every occurrence when disabled', async () => {
+    configure({ apiKey: 'test-key', enabled: true, dedupeWindow: 0 })
+    const error = new Error('Boom')
+
+    notify(error)
+    notify(error)
+    await flush()
+
+    expect(Testing.notices).toHaveLength(2)
+  })
+})
@@ -0,0 +1,2 @@
+function n(r){return r.items.reduce((t,e)=>t+e.price*e.quantity,0)}function o(r){let t=n(r);if(t<=0)throw new Error("Cart is empty");return`Total: ${t}`}export{n as calculateTotal,o as renderSummary};
+//# sourceMappingURL=main.3f2a.js.map
@@ -0,0 +1,11 @@
+export function calculateTotal(cart) {
+  return cart.items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+}
+
+export function renderSummary(cart) {
+  const total = calculateTotal(cart)
+  if (total <= 0) {
+    throw new Error('Cart is empty')
+  }
+  return `Total: ${total}`
+}
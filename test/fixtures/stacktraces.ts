@@ -0,0 +1,43 @@
+/**
+ * Real-world stack traces captured from Chrome, Firefox and Safari.
+ */
+
+export const CHROME_TYPE_ERROR = `TypeError: Cannot read properties of undefined (reading 'total')
+    at renderSummary (https://shop.example.com/assets/main.3f2a.js:1:48213)
+    at HTMLButtonElement.<anonymous> (https://shop.example.com/assets/main.3f2a.js:1:50122)
+    at async CheckoutForm.submit (https://shop.example.com/assets/checkout.js:42:17)
+    at new Cart (https://shop.example.com/assets/cart.js:12:9)
+    at Array.map (<anonymous>)
+    at https://shop.example.com/assets/vendor.js:3:1877`
+
+export const CHROME_EVAL = `Error: boom
+    at eval (eval at runSnippet (https://shop.example.com/assets/console.js:88:14), <anonymous>:1:7)
+    at runSnippet (https://shop.example.com/assets/console.js:88:14)
+    at Object.<anonymous> (http://localhost:8080/index.js:5:3)`
+
+export const CHROME_NATIVE = `Error: native frames
+    at Promise.all (index 0)
+    at JSON.parse (native)
+    at <anonymous>`
+
+export const CHROME_WITH_PORT = `Error: port
+    at load (http://localhost:3000/static/js/bundle.js:1042:11)`
+
+export const FIREFOX_TYPE_ERROR = `renderSummary@https://shop.example.com/assets/main.3f2a.js:1:48213
+CheckoutForm.prototype.submit@https://shop.example.com/assets/checkout.js:42:17
+handleClick/<@https://shop.example.com/assets/main.3f2a.js:1:50122
+@https://shop.example.com/assets/vendor.js:3:1877
+`
+
+export const FIREFOX_EVAL = `@https://shop.example.com/assets/console.js line 88 > eval:1:7
+runSnippet@https://shop.example.com/assets/console.js:88:14
+@https://shop.example.com/assets/widget.js line 4 > Function:2:1`
+
+export const SAFARI_TYPE_ERROR = `renderSummary@https://shop.example.com/assets/main.3f2a.js:1:48213
+submit@https://shop.example.com/assets/checkout.js:42:17
+map@[native code]
+global code@https://shop.example.com/assets/vendor.js:3:1877`
+
+export const SAFARI_EVAL = `eval code@
+eval@[native code]
+runSnippet@https://shop.example.com/assets/console.js:88:14`
@@ -10,6 +10,12 @@ import {
   clear,
   reset,
   stop,
+  addBreadcrumb,
+  getBreadcrumbs,
+  withScope,
+  pushScope,
+  popScope,
+  flush,
 } from '../src/index'
 import { Testing } from '../src/testing'
 
@@ -112,6 +118,29 @@ describe('Checkend Browser SDK', () => {
       expect(Testing.lastNotice?.context.password).toBe('[FILTERED]')
       expect(Testing.lastNotice?.context.username).toBe('john')
     })
+
+    it('scrubs sensitive values from the message, request URL and context but not the user', () => {
+      configure({ apiKey: 'test-key', enabled: true })
+
+      notify(new Error('Card 4111 1111 1111 1111 declined'), {
+        context: { note: 'Contact jane@example.com' },
+        request: { url: 'https://shop.example.com/checkout?email=jane%40example.com' },
+        user: { email: 'jane@example.com' },
+      })
+
+      expect(Testing.lastNotice?.message).toBe('Card [FILTERED] declined')
+      expect(Testing.lastNotice?.context.note).toBe('Contact [FILTERED]')
+      expect(Testing.lastNotice?.request.url).toBe('https://shop.example.com/checkout?email=%5BFILTERED%5D')
+      expect(Testing.lastNotice?.user.email).toBe('jane@example.com')
+    })
+
+    it('keeps values when scrubValues is false', () => {
+      configure({ apiKey: 'test-key', enabled: true, scrubValues: false, scrubPatterns: [/ORD-\d+/] })
+
+      notify(new Error('ORD-42 failed for jane@example.com'))
+
+      expect(Testing.lastNotice?.message).toBe('[FILTERED] failed for jane@example.com')
+    })
   })
 
   describe('notifySync', () => {
@@ -180,6 +209,132 @@ describe('Checkend Browser SDK', () => {
     })
   })
 
+  describe('scopes', () => {
+    it('applies scope data only inside withScope', async () => {
+      configure({ apiKey: 'test-key', enabled: true })
+      setContext({ page: 'checkout' })
+
+      withScope((scope) => {
+        scope.setContext({ step: 'payment' }).setTags(['payment']).setFingerprint('payment-failure')
+        notify(new Error('Inside'))
+      })
+      notify(new Error('Outside'))
+      await flush()
+
+      const [inside, outside] = Testing.notices
+      expect(inside.context).toMatchObject({ page: 'checkout', step: 'payment' })
+      expect(inside.tags).toEqual(['payment'])
+      expect(inside.fingerprint).toBe('payment-failure')
+      expect(outside.context.page).toBe('checkout')
+      expect(outside.context.step).toBeUndefined()
+      expect(outside.tags).toEqual([])
+      expect(outside.fingerprint).toBeUndefined()
+    })
+
+    it('merges scope tags with notify options', () => {
+      configure({ apiKey: 'test-key', enabled: true })
+
+      withScope((scope) => {
+        scope.setTags(['checkout'])
+        notify(new Error('Test'), { tags: ['critical'] })
+      })
+
+      expect(Testing.lastNotice?.tags).toEqual(['checkout', 'critical'])
+    })
+
+    it('routes setContext and setUser to the active scope', () => {
+      configure({ apiKey: 'test-key', enabled: true })
+
+      pushScope()
+      setContext({ temporary: true })
+      setUser({ id: 'impersonated' })
+      expect(getContext().temporary).toBe(true)
+      popScope()
+
+      expect(getContext().temporary).toBeUndefined()
+      expect(getUser().id).toBeUndefined()
+    })
+
+    it('never pops the global scope', () => {
+      configure({ apiKey: 'test-key', enabled: true })
+      setContext({ page: 'home' })
+
+      popScope()
+
+      expect(getContext().page).toBe('home')
+    })
+
+    it('runs scope beforeNotify processors', async () => {
+      configure({ apiKey: 'test-key', enabled: true })
+
+      withScope((scope) => {
+        scope.addBeforeNotify(() => false)
+        notify(new Error('Blocked'))
+      })
+      notify(new Error('Sent'))
+      await flush()
+
+      expect(Testing.notices).toHaveLength(1)
+      expect(Testing.lastNotice?.message).toBe('Sent')
+    })
+
+    it('reports from an explicit scope', () => {
+      configure({ apiKey: 'test-key', enabled: true })
+
+      const scope = pushScope().setContext({ flow: 'upload' })
+      popScope()
+      notify(new Error('Test'), { scope })
+
+      expect(Testing.lastNotice?.context.flow).toBe('upload')
+    })
+
+    it('does not leave an async callback\'s scope active for other flows', async () => {
+      configure({ apiKey: 'test-key', enabled: true })
+
+      const pending = withScope(async (scope) => {
+        scope.setContext({ flow: 'upload' })
+        await Promise.resolve()
+        notify(new Error('Upload failed'), { scope })
+      })
+      expect(getContext().flow).toBeUndefined()
+      notify(new Error('Unrelated'))
+
+      await pending
+      await flush()
+
+      const [unrelated, upload] = Testing.notices
+      expect(unrelated.context.flow).toBeUndefined()
+      expect(upload.context.flow).toBe('upload')
+    })
+
+    it('forks interleaved async scopes from the outer scope', async () => {
+      configure({ apiKey: 'test-key', enabled: true })
+
+      const first = withScope(async (scope) => {
+        scope.setContext({ first: true })
+        await Promise.resolve()
+        return scope
+      })
+      const second = withScope(async (scope) => scope)
+
+      expect((await second).getContext().first).toBeUndefined()
+      expect((await first).getContext().first).toBe(true)
+    })
+
+    it('removes the scope when the callback throws', () => {
+      configure({ apiKey: 'test-key', enabled: true })
+
+      expect(() =>
+        withScope((scope) => {
+          scope.setContext({ flow: 'upload' })
+          throw new Error('boom')
+        })
+      ).toThrow('boom')
+
+      expect(getContext().flow).toBeUndefined()
+    })
+  })
+
   describe('beforeNotify callbacks', () => {
     it('allows modifying notice', () => {
       configure({
@@ -209,5 +364,199 @@ describe('Checkend Browser SDK', () => {
 
       expect(Testing.hasNotices()).toBe(false)
     })
+
+    it('blocks notice when returning null', () => {
+      configure({
+        apiKey: 'test-key',
+        enabled: true,
+        beforeNotify: [() => null],
+      })
+
+      notify(new Error('Test error'))
+
+      expect(Testing.hasNotices()).toBe(false)
+    })
+
+    it('sends a replacement notice returned by a callback', () => {
+      configure({
+        apiKey: 'test-key',
+        enabled: true,
+        beforeNotify: [(notice) => ({ ...notice, message: 'Replaced message' }), (notice) => notice.message !== 'Test error'],
+      })
+
+      notify(new Error('Test error'))
+
+      expect(Testing.lastNotice?.message).toBe('Replaced message')
+    })
+
+    it('awaits async callbacks before sending', async () => {
+      configure({
+        apiKey: 'test-key',
+        enabled: true,
+        beforeNotify: [
+          async (notice) => {
+            await new Promise((resolve) => setTimeout(resolve, 5))
+            notice.context.flags = { newCheckout: true }
+          },
+          (notice) => ({ ...notice, tags: [...notice.tags, 'flagged'] }),
+        ],
+      })
+
+      notify(new Error('Test error'))
+      expect(Testing.hasNotices()).toBe(false)
+      await flush()
+
+      expect(Testing.lastNotice?.context.flags).toEqual({ newCheckout: true })
+      expect(Testing.lastNotice?.tags).toEqual(['flagged'])
+    })
+
+    it('drops notices when an async callback resolves to false', async () => {
+      configure({
+        apiKey: 'test-key',
+        enabled: true,
+        beforeNotify: [async () => false],
+      })
+
+      notify(new Error('Test error'))
+      await flush()
+
+      expect(Testing.hasNotices()).toBe(false)
+    })
+
+    it('sends the notice unchanged when an async callback times out', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      configure({
+        apiKey: 'test-key',
+        enabled: true,
+        beforeNotifyTimeout: 10,
+        beforeNotify: [() => new Promise(() => {})],
+      })
+
+      notify(new Error('Test error'))
+      await flush()
+
+      expect(Testing.lastNotice?.message).toBe('Test error')
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('timed out after 10ms'))
+      warn.mockRestore()
+    })
+
+    it('keeps going when an async callback rejects', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      configure({
+        apiKey: 'test-key',
+        enabled: true,
+        beforeNotify: [async () => Promise.reject(new Error('IndexedDB unavailable'))],
+      })
+
+      notify(new Error('Test error'))
+      await flush()
+
+      expect(Testing.lastNotice?.message).toBe('Test error')
+      warn.mockRestore()
+    })
+
+    it('applies async callbacks to notifySync', async () => {
+      configure({
+        apiKey: 'test-key',
+        enabled: true,
+        useSendBeacon: false,
+        beforeNotify: [async (notice) => ({ ...notice, fingerprint: 'checkout' })],
+      })
+
+      const response = await notifySync(new Error('Test error'))
+
+      expect(response).not.toBeNull()
+      expect(Testing.lastNotice?.fingerprint).toBe('checkout')
+    })
+  })
+
+  describe('afterNotify callbacks', () => {
+    it('receives the API response', async () => {
+      const afterNotify = vi.fn()
+      configure({ apiKey: 'test-key', enabled: true, afterNotify: [afterNotify] })
+
+      notify(new Error('Test error'))
+      await flush()
+
+      expect(afterNotify).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Test error' }),
+        { response: { id: 1, problem_id: 1 }, error: undefined }
+      )
+    })
+
+    it('receives the failure when sending fails', async () => {
+      const afterNotify = vi.fn()
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('Unauthorized', { status: 401 }))
+      configure({ apiKey: 'test-key', enabled: true, afterNotify: [afterNotify] })
+
+      notify(new Error('Test error'))
+      await flush()
+
+      const [, result] = afterNotify.mock.calls[0]
+      expect(result.response).toBeNull()
+      expect(result.error.message).toBe('Checkend responded with 401')
+      vi.restoreAllMocks()
+    })
+
+    it('is not called for notices dropped by beforeNotify', async () => {
+      const afterNotify = vi.fn()
+      configure({ apiKey: 'test-key', enabled: true, beforeNotify: [() => false], afterNotify: [afterNotify] })
+
+      notify(new Error('Test error'))
+      await flush()
+
+      expect(afterNotify).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('breadcrumbs', () => {
+    it('attaches breadcrumbs to notices', () => {
+      configure({ apiKey: 'test-key', enabled: true })
+
+      addBreadcrumb({ message: 'Clicked checkout', data: { step: 2 } })
+      notify(new Error('Test error'))
+
+      const breadcrumbs = Testing.lastNotice?.breadcrumbs ?? []
+      expect(breadcrumbs).toHaveLength(1)
+      expect(breadcrumbs[0].message).toBe('Clicked checkout')
+      expect(breadcrumbs[0].data?.step).toBe(2)
+    })
+
+    it('filters sensitive breadcrumb data', () => {
+      configure({ apiKey: 'test-key', enabled: true })
+
+      addBreadcrumb({ message: 'Logged in', data: { password: 'secret123' } })
+      notify(new Error('Test error'))
+
+      expect(Testing.lastNotice?.breadcrumbs[0].data?.password).toBe('[FILTERED]')
+    })
+
+    it('respects maxBreadcrumbs', () => {
+      configure({ apiKey: 'test-key', enabled: true, maxBreadcrumbs: 2 })
+
+      addBreadcrumb({ message: 'one' })
+      addBreadcrumb({ message: 'two' })
+      addBreadcrumb({ message: 'three' })
+
+      expect(getBreadcrumbs().map((b) => b.message)).toEqual(['two', 'three'])
+    })
+
+    it('records breadcrumbs automatically once configured', () => {
+      configure({ apiKey: 'test-key', enabled: true })
+
+      history.pushState({}, '', '/orders')
+
+      expect(getBreadcrumbs()[0].type).toBe('navigation')
+    })
+
+    it('keeps recording breadcrumbs after configuring again', () => {
+      configure({ apiKey: 'test-key', enabled: true })
+      configure({ apiKey: 'test-key', enabled: true, maxBreadcrumbs: 10 })
+
+      history.pushState({}, '', '/invoices')
+
+      expect(getBreadcrumbs().map((b) => b.type)).toEqual(['navigation'])
+    })
   })
 })
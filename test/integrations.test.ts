@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { CheckendClient } from '../src/checkend'
+import { GlobalErrors, UnhandledRejections, ResourceErrors, resolveIntegrations } from '../src/integrations'
+import type { Integration, Notice, NoticePayload } from '../src/types'
+
+class TestIntegration implements Integration {
+  name: string
+  client: CheckendClient | null = null
+  torndown = false
+
+  constructor(name = 'Test', public processNotice?: Integration['processNotice']) {
+    this.name = name
+  }
+
+  setup(client: CheckendClient): void {
+    this.client = client
+  }
+
+  teardown(): void {
+    this.torndown = true
+  }
+}
+
+function dispatchError(message: string): void {
+  window.dispatchEvent(new ErrorEvent('error', { message, error: new Error(message) }))
+}
+
+describe('integrations', () => {
+  const originalFetch = globalThis.fetch
+  let fetchMock: ReturnType<typeof vi.fn>
+  let client: CheckendClient | null
+
+  function createClient(options = {}): CheckendClient {
+    client = new CheckendClient({ apiKey: 'test-key', enabled: true, useSendBeacon: false, ...options })
+    return client
+  }
+
+  function sentNotices(): NoticePayload[] {
+    return fetchMock.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string))
+  }
+
+  beforeEach(() => {
+    client = null
+    fetchMock = vi.fn().mockImplementation(async () => new Response('{"id":1,"problem_id":1}', { status: 201 }))
+    globalThis.fetch = fetchMock as typeof fetch
+  })
+
+  afterEach(() => {
+    client?.reset()
+    globalThis.fetch = originalFetch
+  })
+
+  it('installs the default integrations from the capture options', () => {
+    const client = createClient({ captureResourceErrors: true })
+
+    expect(client.getIntegration('GlobalErrors')).toBeInstanceOf(GlobalErrors)
+    expect(client.getIntegration('UnhandledRejections')).toBeInstanceOf(UnhandledRejections)
+    expect(client.getIntegration('ResourceErrors')).toBeInstanceOf(ResourceErrors)
+  })
+
+  it('leaves out defaults whose capture option is off', () => {
+    const client = createClient({ captureUnhandledRejections: false })
+
+    expect(client.getIntegration('GlobalErrors')).toBeDefined()
+    expect(client.getIntegration('UnhandledRejections')).toBeUndefined()
+    expect(client.getIntegration('ResourceErrors')).toBeUndefined()
+  })
+
+  it('sets up added integrations with the client and tears them down on stop', () => {
+    const integration = new TestIntegration()
+    const client = createClient({ integrations: [integration] })
+
+    expect(integration.client).toBe(client)
+
+    client.stop()
+
+    expect(integration.torndown).toBe(true)
+    expect(client.getIntegration('Test')).toBeUndefined()
+  })
+
+  it('replaces a default integration by name', async () => {
+    const replacement = new TestIntegration('GlobalErrors')
+    const client = createClient({ integrations: [replacement] })
+
+    dispatchError('Boom')
+    await client.flush()
+
+    expect(client.getIntegration('GlobalErrors')).toBe(replacement)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('turns defaults off with a function', async () => {
+    const client = createClient({
+      integrations: (defaults: Integration[]) => defaults.filter((integration) => integration.name !== 'GlobalErrors'),
+    })
+
+    dispatchError('Boom')
+    await client.flush()
+
+    expect(client.getIntegration('GlobalErrors')).toBeUndefined()
+    expect(client.getIntegration('UnhandledRejections')).toBeDefined()
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('runs processNotice hooks before beforeNotify callbacks', async () => {
+    const seen: string[] = []
+    const integration = new TestIntegration('Flags', (notice: Notice) => {
+      seen.push('integration')
+      return { ...notice, context: { ...notice.context, flags: ['new-checkout'] } }
+    })
+    const client = createClient({
+      integrations: [integration],
+      beforeNotify: [
+        (notice: Notice) => {
+          seen.push('beforeNotify')
+          expect(notice.context.flags).toEqual(['new-checkout'])
+        },
+      ],
+    })
+
+    client.notify(new Error('Boom'))
+    await client.flush()
+
+    expect(seen).toEqual(['integration', 'beforeNotify'])
+    expect(sentNotices()[0].context.flags).toEqual(['new-checkout'])
+  })
+
+  it('lets integrations report notices through the pipeline', async () => {
+    const integration = new TestIntegration()
+    const client = createClient({ integrations: [integration], ignoredExceptions: ['Ignored'] })
+
+    const notice = integration.client!.buildNotice(new Error('Custom source failed'), { tags: ['custom'] })
+    integration.client!.captureNotice(notice)
+    const ignored = integration.client!.buildNotice(Object.assign(new Error('Nope'), { name: 'Ignored' }))
+    integration.client!.captureNotice(ignored)
+    await client.flush()
+
+    expect(sentNotices()).toHaveLength(1)
+    expect(sentNotices()[0].error.tags).toEqual(['custom'])
+  })
+
+  it('scrubs the message and location of uncaught errors', async () => {
+    const client = createClient()
+
+    window.dispatchEvent(
+      new ErrorEvent('error', {
+        message: 'card 4111 1111 1111 1111 for bob@example.com',
+        filename: 'https://example.com/a.js?token=secret123&x=bob@example.com',
+        lineno: 3,
+        colno: 7,
+      })
+    )
+    await client.flush()
+
+    const [notice] = sentNotices()
+    expect(notice.error.message).toBe('card [FILTERED] for [FILTERED]')
+    expect(notice.error.backtrace).toEqual(['https://example.com/a.js?token=%5BFILTERED%5D&x=%5BFILTERED%5D:3:7'])
+  })
+
+  it('leaves error events from elements to other integrations', async () => {
+    const client = createClient()
+    const video = document.createElement('video')
+    const widget = document.createElement('div')
+    document.body.append(video, widget)
+
+    video.dispatchEvent(new Event('error'))
+    widget.dispatchEvent(new Event('error', { bubbles: true }))
+    await client.flush()
+
+    expect(sentNotices()).toEqual([])
+    video.remove()
+    widget.remove()
+  })
+
+  it('describes non-Error rejection reasons', async () => {
+    const client = createClient()
+
+    window.dispatchEvent(Object.assign(new Event('unhandledrejection'), { reason: { code: 'E_QUOTA' } }))
+    await client.flush()
+
+    const [notice] = sentNotices()
+    expect(notice.error.class).toBe('UnhandledRejection')
+    expect(notice.error.message).toBe('{"code":"E_QUOTA"}')
+    expect(notice.context.reason).toEqual({ code: 'E_QUOTA' })
+  })
+
+  it('keeps starting when an integration fails to set up', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const broken = new TestIntegration('Broken')
+    broken.setup = () => {
+      throw new Error('setup failed')
+    }
+
+    const client = createClient({ integrations: [broken] })
+
+    expect(client.getIntegration('GlobalErrors')).toBeDefined()
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Integration Broken failed to set up'))
+    vi.restoreAllMocks()
+  })
+})
+
+describe('resolveIntegrations', () => {
+  it('keeps a replaced default in its position', () => {
+    const defaults = [new TestIntegration('A'), new TestIntegration('B')]
+    const replacement = new TestIntegration('A')
+    const extra = new TestIntegration('C')
+
+    expect(resolveIntegrations(defaults, [extra, replacement])).toEqual([replacement, defaults[1], extra])
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { shouldCapture, createNetworkError } from '../src/network'
+import { Configuration } from '../src/configuration'
+import type { RequestEvent } from '../src/instrument'
+import { configure, reset, setContext } from '../src/index'
+import { Testing } from '../src/testing'
+
+function requestEvent(overrides: Partial<RequestEvent> = {}): RequestEvent {
+  return {
+    transport: 'fetch',
+    method: 'GET',
+    url: 'https://api.example.com/items',
+    status: 500,
+    duration: 12,
+    ...overrides,
+  }
+}
+
+describe('shouldCapture', () => {
+  const config = new Configuration({ apiKey: 'test-key', captureNetworkErrors: true })
+
+  it('captures 5xx responses by default', () => {
+    expect(shouldCapture(config, requestEvent({ status: 500 }))).toBe(true)
+    expect(shouldCapture(config, requestEvent({ status: 503 }))).toBe(true)
+    expect(shouldCapture(config, requestEvent({ status: 404 }))).toBe(false)
+    expect(shouldCapture(config, requestEvent({ status: 200 }))).toBe(false)
+  })
+
+  it('captures requests that failed without a response', () => {
+    expect(shouldCapture(config, requestEvent({ status: 0 }))).toBe(true)
+  })
+
+  it('skips aborted requests', () => {
+    expect(shouldCapture(config, requestEvent({ status: 0, aborted: true }))).toBe(false)
+  })
+
+  it('skips requests to the ingestion API', () => {
+    expect(shouldCapture(config, requestEvent({ url: 'https://app.checkend.io/ingest/v1/errors' }))).toBe(false)
+  })
+
+  it('supports single statuses and ranges', () => {
+    const custom = new Configuration({ apiKey: 'test-key', networkErrorStatuses: [404, [500, 502]] })
+
+    expect(shouldCapture(custom, requestEvent({ status: 404 }))).toBe(true)
+    expect(shouldCapture(custom, requestEvent({ status: 502 }))).toBe(true)
+    expect(shouldCapture(custom, requestEvent({ status: 503 }))).toBe(false)
+  })
+
+  it('only captures allowed URLs when an allow list is set', () => {
+    const custom = new Configuration({ apiKey: 'test-key', networkAllowUrls: ['api.example.com', /\/graphql$/] })
+
+    expect(shouldCapture(custom, requestEvent({ url: 'https://api.example.com/items' }))).toBe(true)
+    expect(shouldCapture(custom, requestEvent({ url: 'https://other.test/graphql' }))).toBe(true)
+    expect(shouldCapture(custom, requestEvent({ url: 'https://cdn.example.net/app.js' }))).toBe(false)
+  })
+
+  it('never captures denied URLs', () => {
+    const custom = new Configuration({
+      apiKey: 'test-key',
+      networkAllowUrls: ['example.com'],
+      networkDenyUrls: [/analytics/],
+    })
+
+    expect(shouldCapture(custom, requestEvent({ url: 'https://example.com/analytics/track' }))).toBe(false)
+  })
+})
+
+describe('createNetworkError', () => {
+  it('describes HTTP error responses', () => {
+    const error = createNetworkError(requestEvent({ method: 'POST', status: 503 }), 'https://api.example.com/items')
+
+    expect(error.name).toBe('HTTPError')
+    expect(error.message).toBe('POST https://api.example.com/items responded with 503')
+  })
+
+  it('describes network failures using the original error', () => {
+    const cause = new TypeError('Failed to fetch')
+    const error = createNetworkError(requestEvent({ status: 0, error: cause }), 'https://api.example.com/items')
+
+    expect(error.name).toBe('NetworkError')
+    expect(error.message).toBe('GET https://api.example.com/items failed: Failed to fetch')
+    expect(error.stack).toBe(cause.stack)
+  })
+})
+
+describe('network error capture', () => {
+  const originalFetch = globalThis.fetch
+
+  beforeEach(() => {
+    // Application requests reach this stub; Testing intercepts ingestion calls before it
+    globalThis.fetch = vi.fn().mockImplementation(async (input: RequestInfo | URL) => {
+      const url = String(input)
+      if (url.includes('/offline')) throw new TypeError('Failed to fetch')
+      return new Response('', { status: url.includes('/broken') ? 503 : 200 })
+    }) as typeof fetch
+    Testing.setup()
+  })
+
+  afterEach(() => {
+    reset()
+    Testing.teardown()
+    globalThis.fetch = originalFetch
+  })
+
+  it('does nothing unless enabled', async () => {
+    configure({ apiKey: 'test-key', enabled: true })
+
+    await fetch('https://api.example.com/broken')
+
+    expect(Testing.notices).toHaveLength(0)
+  })
+
+  it('reports failed responses with request details', async () => {
+    configure({ apiKey: 'test-key', enabled: true, captureNetworkErrors: true })
+    setContext({ page: 'checkout' })
+
+    await fetch('https://api.example.com/broken?token=abc123', { method: 'POST' })
+
+    const notice = Testing.lastNotice!
+    expect(notice.errorClass).toBe('HTTPError')
+    expect(notice.message).toBe('POST https://api.example.com/broken?token=%5BFILTERED%5D responded with 503')
+    expect(notice.tags).toEqual(['network'])
+    expect(notice.request.method).toBe('POST')
+    expect(notice.request.status).toBe(503)
+    expect(notice.context.page).toBe('checkout')
+    expect(notice.context.transport).toBe('fetch')
+  })
+
+  it('reports requests that fail without a response', async () => {
+    configure({ apiKey: 'test-key', enabled: true, captureNetworkErrors: true })
+
+    await expect(fetch('https://api.example.com/offline')).rejects.toThrow('Failed to fetch')
+
+    expect(Testing.lastNotice?.errorClass).toBe('NetworkError')
+  })
+
+  it('ignores successful responses', async () => {
+    configure({ apiKey: 'test-key', enabled: true, captureNetworkErrors: true })
+
+    await fetch('https://api.example.com/items')
+
+    expect(Testing.notices).toHaveLength(0)
+  })
+
+  it('stops capturing after reset', async () => {
+    configure({ apiKey: 'test-key', enabled: true, captureNetworkErrors: true })
+    reset()
+
+    await fetch('https://api.example.com/broken')
+
+    expect(Testing.notices).toHaveLength(0)
+  })
+})
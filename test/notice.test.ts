@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { createNotice, createNoticeFromRaw, toPayload } from '../src/notice'
+import { createNotice, createNoticeFromRaw, toPayload, collectCauses } from '../src/notice'
 
 describe('createNotice', () => {
   it('creates notice from Error', () => {
@@ -14,6 +14,19 @@ describe('createNotice', () => {
     expect(notice.occurredAt).toBeDefined()
   })
 
+  it('parses structured stack frames', () => {
+    const error = new Error('Test error')
+    error.stack = `Error: Test error
+    at renderSummary (https://example.com/app.js:10:5)`
+
+    const notice = createNotice(error)
+
+    expect(notice.backtrace).toEqual(['at renderSummary (https://example.com/app.js:10:5)'])
+    expect(notice.frames).toEqual([
+      { function: 'renderSummary', file: 'https://example.com/app.js', line: 10, column: 5 },
+    ])
+  })
+
   it('includes context', () => {
     const error = new Error('Test error')
     const notice = createNotice(error, {
@@ -90,6 +103,7 @@ describe('createNoticeFromRaw', () => {
     expect(notice.errorClass).toBe('Error')
     expect(notice.message).toBe('Script error')
     expect(notice.backtrace.length).toBeGreaterThan(0)
+    expect(notice.frames).toEqual([{ file: 'https://example.com/app.js', line: 42, column: 10 }])
   })
 
   it('uses Error object if provided', () => {
@@ -121,6 +135,7 @@ describe('toPayload', () => {
     expect(payload.error.class).toBe('Error')
     expect(payload.error.message).toBe('Test error')
     expect(payload.error.backtrace).toBeInstanceOf(Array)
+    expect(payload.error.frames).toEqual(notice.frames)
     expect(payload.error.occurred_at).toBeDefined()
     expect(payload.error.tags).toEqual(['test'])
     expect(payload.context.key).toBe('value')
@@ -130,6 +145,55 @@ describe('toPayload', () => {
     expect(payload.notifier.language).toBe('javascript')
   })
 
+  it('includes breadcrumbs', () => {
+    const notice = createNotice(new Error('Test error'), {
+      breadcrumbs: [{ type: 'manual', message: 'Opened cart', timestamp: new Date().toISOString() }],
+    })
+
+    const payload = toPayload(notice)
+
+    expect(payload.breadcrumbs).toHaveLength(1)
+    expect(payload.breadcrumbs?.[0].message).toBe('Opened cart')
+  })
+
+  it('omits breadcrumbs if empty', () => {
+    const payload = toPayload(createNotice(new Error('Test error')))
+
+    expect(payload.breadcrumbs).toBeUndefined()
+  })
+
+  it('includes dropped notice counts', () => {
+    const notice = createNotice(new Error('Test error'))
+    notice.dropped = { sampled: 3, pageLoadLimit: 0, minuteLimit: 12 }
+
+    const payload = toPayload(notice)
+
+    expect(payload.dropped).toEqual({ sampled: 3, page_load_limit: 0, minute_limit: 12 })
+  })
+
+  it('includes causes with their own backtraces', () => {
+    const cause = new TypeError('Card declined')
+    cause.stack = `TypeError: Card declined
+    at charge (https://example.com/pay.js:3:9)`
+
+    const payload = toPayload(createNotice(new Error('Checkout failed', { cause })))
+
+    expect(payload.causes).toEqual([
+      {
+        class: 'TypeError',
+        message: 'Card declined',
+        backtrace: ['at charge (https://example.com/pay.js:3:9)'],
+        frames: [{ function: 'charge', file: 'https://example.com/pay.js', line: 3, column: 9 }],
+      },
+    ])
+  })
+
+  it('omits causes if there are none', () => {
+    const payload = toPayload(createNotice(new Error('Test error')))
+
+    expect(payload.causes).toBeUndefined()
+  })
+
   it('omits tags if empty', () => {
     const error = new Error('Test error')
     const notice = createNotice(error)
@@ -139,3 +203,70 @@ describe('toPayload', () => {
     expect(payload.error.tags).toBeUndefined()
   })
 })
+
+describe('collectCauses', () => {
+  it('walks the cause chain', () => {
+    const root = new Error('ECONNRESET')
+    const middle = new Error('Request failed', { cause: root })
+    const top = new Error('Checkout failed', { cause: middle })
+
+    expect(collectCauses(top).map((cause) => cause.message)).toEqual(['Request failed', 'ECONNRESET'])
+  })
+
+  it('unpacks AggregateError errors before its cause', () => {
+    const error = new AggregateError([new Error('Mirror 1 down'), new RangeError('Mirror 2 down')], 'All mirrors failed', {
+      cause: new Error('DNS failure'),
+    })
+
+    const causes = collectCauses(error)
+
+    expect(causes.map((cause) => [cause.errorClass, cause.message])).toEqual([
+      ['Error', 'Mirror 1 down'],
+      ['RangeError', 'Mirror 2 down'],
+      ['Error', 'DNS failure'],
+    ])
+  })
+
+  it('walks nested aggregates depth first', () => {
+    const inner = new AggregateError([new Error('Inner 1')], 'Inner')
+    const error = new AggregateError([inner, new Error('Outer 2')], 'Outer')
+
+    expect(collectCauses(error).map((cause) => cause.message)).toEqual(['Inner', 'Inner 1', 'Outer 2'])
+  })
+
+  it('stops at cycles', () => {
+    const first = new Error('First')
+    const second = new Error('Second', { cause: first })
+    ;(first as Error & { cause?: unknown }).cause = second
+
+    expect(collectCauses(first).map((cause) => cause.message)).toEqual(['Second'])
+  })
+
+  it('stops after five levels', () => {
+    let error = new Error('Level 0')
+    for (let level = 1; level <= 8; level++) {
+      error = new Error(`Level ${level}`, { cause: error })
+    }
+
+    const causes = collectCauses(error)
+
+    expect(causes).toHaveLength(5)
+    expect(causes[4].message).toBe('Level 3')
+  })
+
+  it('keeps at most ten causes', () => {
+    const errors = Array.from({ length: 15 }, (_, i) => new Error(`Attempt ${i}`))
+
+    expect(collectCauses(new AggregateError(errors, 'All attempts failed'))).toHaveLength(10)
+  })
+
+  it('describes causes that are not errors', () => {
+    const causes = collectCauses(new Error('Save failed', { cause: { code: 'QUOTA_EXCEEDED' } }))
+
+    expect(causes).toEqual([{ errorClass: 'Object', message: '{"code":"QUOTA_EXCEEDED"}', backtrace: [], frames: [] }])
+  })
+
+  it('is empty without a cause', () => {
+    expect(collectCauses(new Error('Alone'))).toEqual([])
+  })
+})
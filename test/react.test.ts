@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { act, createElement } from 'react'
+import { createRoot } from 'react-dom/client'
+import type { Root } from 'react-dom/client'
+import { ErrorBoundary, useCheckend, rootErrorHandlers } from '../src/react'
+import type { CheckendHook, FallbackProps } from '../src/react'
+import { configure, reset, flush, notify, setContext } from '../src/index'
+import { Testing } from '../src/testing'
+
+declare global {
+  var IS_REACT_ACT_ENVIRONMENT: boolean
+}
+
+function Thrower({ message }: { message: string }): never {
+  throw new Error(message)
+}
+
+describe('React integration', () => {
+  let container: HTMLDivElement
+  let root: Root
+
+  beforeEach(() => {
+    globalThis.IS_REACT_ACT_ENVIRONMENT = true
+    Testing.setup()
+    configure({ apiKey: 'test-key', enabled: true })
+    container = document.createElement('div')
+    document.body.appendChild(container)
+    root = createRoot(container)
+    // React logs caught render errors; keep test output quiet
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    act(() => root.unmount())
+    container.remove()
+    vi.restoreAllMocks()
+    reset()
+    Testing.teardown()
+  })
+
+  describe('ErrorBoundary', () => {
+    it('renders children when nothing throws', () => {
+      act(() => root.render(createElement(ErrorBoundary, { fallback: 'Oops' }, 'All good')))
+
+      expect(container.textContent).toBe('All good')
+      expect(Testing.notices).toHaveLength(0)
+    })
+
+    it('reports render errors with the component stack and renders the fallback', async () => {
+      act(() =>
+        root.render(
+          createElement(
+            ErrorBoundary,
+            { fallback: 'Oops', context: { section: 'cart' }, tags: ['cart'] },
+            createElement(Thrower, { message: 'Render failed' })
+          )
+        )
+      )
+      await flush()
+
+      expect(container.textContent).toBe('Oops')
+      const notice = Testing.lastNotice!
+      expect(notice.message).toBe('Render failed')
+      expect(notice.tags).toEqual(['react', 'cart'])
+      expect(notice.context.section).toBe('cart')
+      expect(notice.context.componentStack).toContain('Thrower')
+    })
+
+    it('passes the error and a reset function to a fallback render function', () => {
+      let shouldThrow = true
+      const onReset = vi.fn()
+
+      function MaybeThrow() {
+        if (shouldThrow) throw new Error('Flaky')
+        return 'Recovered'
+      }
+
+      let fallbackProps: FallbackProps | null = null
+      act(() =>
+        root.render(
+          createElement(
+            ErrorBoundary,
+            {
+              fallback: (props: FallbackProps) => {
+                fallbackProps = props
+                return `Failed: ${props.error.message}`
+              },
+              onReset,
+            },
+            createElement(MaybeThrow)
+          )
+        )
+      )
+
+      expect(container.textContent).toBe('Failed: Flaky')
+
+      shouldThrow = false
+      act(() => fallbackProps!.resetError())
+
+      expect(container.textContent).toBe('Recovered')
+      expect(onReset).toHaveBeenCalled()
+    })
+
+    it('calls onError after reporting', () => {
+      const onError = vi.fn()
+
+      act(() =>
+        root.render(createElement(ErrorBoundary, { onError }, createElement(Thrower, { message: 'Boom' })))
+      )
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Boom' }), expect.any(String))
+    })
+  })
+
+  describe('useCheckend', () => {
+    it('reports with context scoped to the component', async () => {
+      setContext({ page: 'orders' })
+      let hook: CheckendHook | null = null
+
+      function Order() {
+        hook = useCheckend({ context: { orderId: 42 } })
+        return null
+      }
+
+      act(() => root.render(createElement(Order)))
+      hook!.notify(new Error('Load failed'))
+      await flush()
+
+      expect(Testing.lastNotice?.context.page).toBe('orders')
+      expect(Testing.lastNotice?.context.orderId).toBe(42)
+    })
+
+    it('does not leak component context into global reports', async () => {
+      function Order() {
+        useCheckend({ context: { orderId: 42 } })
+        return null
+      }
+
+      act(() => root.render(createElement(Order)))
+      notify(new Error('Elsewhere'))
+      await flush()
+
+      expect(Testing.lastNotice?.context.orderId).toBeUndefined()
+    })
+  })
+
+  describe('rootErrorHandlers', () => {
+    it('reports caught and uncaught errors with distinct tags', async () => {
+      const callback = vi.fn()
+      const handlers = rootErrorHandlers({ callback })
+
+      handlers.onCaughtError(new Error('Caught'), { componentStack: '\n    at Cart' })
+      handlers.onUncaughtError(new Error('Uncaught'), { componentStack: '\n    at App' })
+      await flush()
+
+      const [caught, uncaught] = Testing.notices
+      expect(caught.tags).toEqual(['react'])
+      expect(caught.context.componentStack).toContain('Cart')
+      expect(uncaught.tags).toEqual(['react', 'unhandled'])
+      expect(callback).toHaveBeenCalledTimes(2)
+    })
+
+    it('leaves errors caught by an ErrorBoundary to the boundary', async () => {
+      const callback = vi.fn()
+      const handlersRoot = createRoot(document.createElement('div'), rootErrorHandlers({ callback }))
+
+      act(() =>
+        handlersRoot.render(
+          createElement(ErrorBoundary, { fallback: 'Oops', tags: ['cart'] }, createElement(Thrower, { message: 'Once' }))
+        )
+      )
+      await flush()
+
+      expect(Testing.notices).toHaveLength(1)
+      expect(Testing.lastNotice?.tags).toEqual(['react', 'cart'])
+      expect(callback).toHaveBeenCalledTimes(1)
+      act(() => handlersRoot.unmount())
+    })
+
+    it('wraps non-Error values', async () => {
+      rootErrorHandlers().onUncaughtError('bad state', {})
+      await flush()
+
+      expect(Testing.lastNotice?.errorClass).toBe('RenderError')
+      expect(Testing.lastNotice?.message).toBe('bad state')
+    })
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { getFailedResource, createResourceLoadError } from '../src/resource'
+import { configure, reset, flush } from '../src/index'
+import { Testing } from '../src/testing'
+
+function failLoad(element: Element): void {
+  document.body.appendChild(element)
+  element.dispatchEvent(new Event('error'))
+  element.remove()
+}
+
+function script(src: string): HTMLScriptElement {
+  const element = document.createElement('script')
+  element.src = src
+  return element
+}
+
+function image(src: string): HTMLImageElement {
+  const element = document.createElement('img')
+  element.src = src
+  return element
+}
+
+describe('getFailedResource', () => {
+  it('describes failed scripts, stylesheets and images', () => {
+    const link = document.createElement('link')
+    link.rel = 'stylesheet'
+    link.href = 'https://cdn.example.com/app.css'
+    const img = document.createElement('img')
+    img.src = 'https://cdn.example.com/logo.png'
+
+    expect(getFailedResource(targeted(script('https://cdn.example.com/app.js')))).toEqual({
+      tag: 'script',
+      url: 'https://cdn.example.com/app.js',
+    })
+    expect(getFailedResource(targeted(link))).toEqual({ tag: 'link', url: 'https://cdn.example.com/app.css' })
+    expect(getFailedResource(targeted(img))).toEqual({ tag: 'img', url: 'https://cdn.example.com/logo.png' })
+  })
+
+  it('returns null for runtime errors and other elements', () => {
+    expect(getFailedResource(targeted(window))).toBeNull()
+    expect(getFailedResource(targeted(document.createElement('div')))).toBeNull()
+  })
+})
+
+describe('createResourceLoadError', () => {
+  it('names the element and URL', () => {
+    const error = createResourceLoadError('script', 'https://cdn.example.com/app.js')
+
+    expect(error.name).toBe('ResourceLoadError')
+    expect(error.message).toBe('Failed to load <script> https://cdn.example.com/app.js')
+    expect(error.stack).toBeUndefined()
+  })
+})
+
+describe('resource error capture', () => {
+  beforeEach(() => {
+    Testing.setup()
+  })
+
+  afterEach(() => {
+    reset()
+    Testing.teardown()
+  })
+
+  it('reports failed loads when enabled', async () => {
+    configure({ apiKey: 'test-key', enabled: true, captureResourceErrors: true })
+
+    failLoad(image('https://cdn.example.com/logo.png?token=abc123'))
+    await flush()
+
+    const notice = Testing.lastNotice!
+    expect(notice.errorClass).toBe('ResourceLoadError')
+    expect(notice.tags).toEqual(['resource'])
+    expect(notice.context.resource).toEqual({ tag: 'img', url: 'https://cdn.example.com/logo.png?token=%5BFILTERED%5D' })
+  })
+
+  it('filters URLs with the client\'s filter keys and patterns', async () => {
+    configure({ apiKey: 'test-key', enabled: true, captureResourceErrors: true, filterKeys: ['sig'], scrubPatterns: [/u-\d+/] })
+
+    failLoad(image('https://cdn.example.com/logo.png?sig=abc123&user=u-42'))
+    await flush()
+
+    expect(Testing.lastNotice!.context.resource).toEqual({
+      tag: 'img',
+      url: 'https://cdn.example.com/logo.png?sig=%5BFILTERED%5D&user=%5BFILTERED%5D',
+    })
+  })
+
+  it('ignores failed loads by default', async () => {
+    configure({ apiKey: 'test-key', enabled: true })
+
+    failLoad(image('https://cdn.example.com/logo.png'))
+    await flush()
+
+    expect(Testing.hasNotices()).toBe(false)
+  })
+
+  it('captures resource errors without capturing unhandled errors', async () => {
+    configure({ apiKey: 'test-key', enabled: true, captureUnhandled: false, captureResourceErrors: true })
+
+    window.dispatchEvent(new ErrorEvent('error', { message: 'Uncaught Error: Boom' }))
+    failLoad(image('https://cdn.example.com/logo.png'))
+    await flush()
+
+    expect(Testing.notices).toHaveLength(1)
+    expect(Testing.lastNotice?.errorClass).toBe('ResourceLoadError')
+  })
+})
+
+function targeted(target: EventTarget): Event {
+  const event = new Event('error')
+  Object.defineProperty(event, 'target', { value: target })
+  return event
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Sampler } from '../src/sampler'
+import { Configuration } from '../src/configuration'
+import { createNotice } from '../src/notice'
+import { configure, notify, reset, flush } from '../src/index'
+import { Testing } from '../src/testing'
+import type { ConfigOptions } from '../src/types'
+
+function createSampler(options: Partial<ConfigOptions> = {}): Sampler {
+  return new Sampler(new Configuration({ apiKey: 'test-key', ...options }))
+}
+
+function notice(name = 'Error') {
+  const error = new Error('Test error')
+  error.name = name
+  return createNotice(error)
+}
+
+describe('Sampler', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('sends everything by default', () => {
+    const sampler = createSampler()
+
+    for (let i = 0; i < 50; i++) {
+      expect(sampler.sample(notice())).toBe(true)
+    }
+  })
+
+  it('drops notices above the sample rate', () => {
+    const sampler = createSampler({ sampleRate: 0.25 })
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.1)
+    expect(sampler.sample(notice())).toBe(true)
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.5)
+    expect(sampler.sample(notice())).toBe(false)
+    expect(sampler.getDropped().sampled).toBe(1)
+  })
+
+  it('uses the sampler callback rate per notice', () => {
+    const sampler = createSampler({
+      sampler: (n) => (n.errorClass === 'ChunkLoadError' ? 0 : undefined),
+    })
+
+    expect(sampler.sample(notice('ChunkLoadError'))).toBe(false)
+    expect(sampler.sample(notice('TypeError'))).toBe(true)
+  })
+
+  it('falls back to sampleRate when the sampler callback throws', () => {
+    const sampler = createSampler({
+      sampler: () => {
+        throw new Error('broken sampler')
+      },
+    })
+
+    expect(sampler.sample(notice())).toBe(true)
+  })
+
+  it('caps notices per page load', () => {
+    const sampler = createSampler({ maxNoticesPerPageLoad: 2 })
+
+    expect(sampler.sample(notice())).toBe(true)
+    expect(sampler.sample(notice())).toBe(true)
+    expect(sampler.sample(notice())).toBe(false)
+    expect(sampler.getDropped().pageLoadLimit).toBe(1)
+  })
+
+  it('applies only the caps to notices already sampled in', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.9)
+    const sampler = createSampler({ sampleRate: 0.5, maxNoticesPerPageLoad: 1 })
+
+    expect(sampler.withinCaps(notice())).toBe(true)
+    expect(sampler.withinCaps(notice())).toBe(false)
+    expect(sampler.getDropped()).toEqual({ sampled: 0, pageLoadLimit: 1, minuteLimit: 0 })
+  })
+
+  it('caps notices per minute', () => {
+    vi.useFakeTimers()
+    const sampler = createSampler({ maxNoticesPerMinute: 2 })
+
+    sampler.sample(notice())
+    sampler.sample(notice())
+    expect(sampler.sample(notice())).toBe(false)
+    expect(sampler.getDropped().minuteLimit).toBe(1)
+
+    vi.advanceTimersByTime(60 * 1000)
+    expect(sampler.sample(notice())).toBe(true)
+  })
+
+  it('attaches dropped counts to the next sent notice and resets them', () => {
+    vi.useFakeTimers()
+    const sampler = createSampler({ maxNoticesPerMinute: 1 })
+
+    sampler.sample(notice())
+    sampler.sample(notice())
+    sampler.sample(notice())
+    vi.advanceTimersByTime(60 * 1000)
+
+    const next = notice()
+    expect(sampler.sample(next)).toBe(true)
+    expect(next.dropped).toEqual({ sampled: 0, pageLoadLimit: 0, minuteLimit: 2 })
+    expect(sampler.getDropped()).toEqual({ sampled: 0, pageLoadLimit: 0, minuteLimit: 0 })
+  })
+
+  it('does not attach counts when nothing was dropped', () => {
+    const sampler = createSampler()
+    const sent = notice()
+
+    sampler.sample(sent)
+
+    expect(sent.dropped).toBeUndefined()
+  })
+})
+
+describe('sampling integration', () => {
+  beforeEach(() => {
+    Testing.setup()
+  })
+
+  afterEach(() => {
+    reset()
+    Testing.teardown()
+  })
+
+  it('reports dropped counts to the server', async () => {
+    configure({ apiKey: 'test-key', enabled: true, sampler: (n) => (n.message === 'noisy' ? 0 : 1) })
+
+    notify(new Error('noisy'))
+    notify(new Error('noisy'))
+    notify(new Error('real'))
+    await flush()
+
+    expect(Testing.notices).toHaveLength(1)
+    expect(Testing.lastNotice?.dropped).toEqual({ sampled: 2, pageLoadLimit: 0, minuteLimit: 0 })
+  })
+
+  it('does not count notices blocked by beforeNotify', async () => {
+    configure({
+      apiKey: 'test-key',
+      enabled: true,
+      beforeNotify: [(n) => n.message !== 'filtered'],
+      maxNoticesPerPageLoad: 1,
+    })
+
+    notify(new Error('filtered'))
+    notify(new Error('sent'))
+    await flush()
+
+    expect(Testing.lastNotice?.message).toBe('sent')
+    expect(Testing.lastNotice?.dropped).toBeUndefined()
+  })
+})
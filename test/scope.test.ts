@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { Scope } from '../src/scope'
+
+describe('Scope', () => {
+  it('merges context and user', () => {
+    const scope = new Scope()
+
+    scope.setContext({ page: 'home' }).setContext({ step: 1 })
+    scope.setUser({ id: 1 }).setUser({ email: 'user@example.com' })
+
+    expect(scope.getContext()).toEqual({ page: 'home', step: 1 })
+    expect(scope.getUser()).toEqual({ id: 1, email: 'user@example.com' })
+  })
+
+  it('reads through to its parent', () => {
+    const parent = new Scope().setContext({ page: 'home', step: 1 }).setUser({ id: 1 })
+    const child = parent.fork().setContext({ step: 2 })
+
+    expect(child.getContext()).toEqual({ page: 'home', step: 2 })
+    expect(child.getUser()).toEqual({ id: 1 })
+  })
+
+  it('does not modify its parent', () => {
+    const parent = new Scope().setContext({ page: 'home' })
+    const child = parent.fork()
+
+    child.setContext({ page: 'checkout' }).setTags(['checkout'])
+
+    expect(parent.getContext()).toEqual({ page: 'home' })
+    expect(parent.getTags()).toEqual([])
+  })
+
+  it('sees later changes to its parent', () => {
+    const parent = new Scope()
+    const child = parent.fork()
+
+    parent.setContext({ release: '1.2.0' })
+
+    expect(child.getContext()).toEqual({ release: '1.2.0' })
+  })
+
+  it('collects tags along the chain without duplicates', () => {
+    const parent = new Scope().setTags(['web', 'checkout'])
+    const child = parent.fork().setTags(['checkout', 'payment'])
+
+    expect(child.getTags()).toEqual(['web', 'checkout', 'payment'])
+  })
+
+  it('uses the innermost fingerprint', () => {
+    const parent = new Scope().setFingerprint('outer')
+    const child = parent.fork()
+
+    expect(child.getFingerprint()).toBe('outer')
+
+    child.setFingerprint('inner')
+    expect(child.getFingerprint()).toBe('inner')
+  })
+
+  it('collects beforeNotify processors outermost first', () => {
+    const outer = () => true
+    const inner = () => true
+    const child = new Scope().addBeforeNotify(outer).fork().addBeforeNotify(inner)
+
+    expect(child.getBeforeNotify()).toEqual([outer, inner])
+  })
+
+  it('clears only its own data', () => {
+    const parent = new Scope().setContext({ page: 'home' })
+    const child = parent.fork().setContext({ step: 2 }).setFingerprint('fp')
+
+    child.clear()
+
+    expect(child.getContext()).toEqual({ page: 'home' })
+    expect(child.getFingerprint()).toBeUndefined()
+  })
+})
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest'
+import { serialize, describeValue } from '../src/serialize'
+
+class Cart {
+  items = 2
+  owner = 'ada'
+}
+
+class Handle {}
+
+describe('serialize', () => {
+  it('passes JSON values through', () => {
+    expect(serialize({ name: 'ada', count: 2, ok: true, tags: ['a'], none: null })).toEqual({
+      name: 'ada',
+      count: 2,
+      ok: true,
+      tags: ['a'],
+      none: null,
+    })
+  })
+
+  it('replaces cycles with [Circular]', () => {
+    const order: Record<string, unknown> = { id: 1 }
+    order.self = order
+    order.lines = [{ order }]
+
+    expect(serialize(order)).toEqual({ id: 1, self: '[Circular]', lines: [{ order: '[Circular]' }] })
+  })
+
+  it('keeps repeated references that are not cycles', () => {
+    const address = { city: 'Paris' }
+
+    expect(serialize({ billing: address, shipping: address })).toEqual({
+      billing: { city: 'Paris' },
+      shipping: { city: 'Paris' },
+    })
+  })
+
+  it('describes DOM nodes and the window', () => {
+    const button = document.createElement('button')
+    button.className = 'primary'
+
+    expect(serialize({ button, text: document.createTextNode('hi'), win: window })).toEqual({
+      button: '[Element: button.primary]',
+      text: '[Text]',
+      win: '[Window]',
+    })
+  })
+
+  it('converts Maps to objects and Sets to arrays', () => {
+    const map = new Map<unknown, unknown>([
+      ['plan', 'pro'],
+      [42, new Set([1, 2])],
+    ])
+
+    expect(serialize(map)).toEqual({ plan: 'pro', '42': [1, 2] })
+  })
+
+  it('converts dates, BigInts, symbols, functions and special numbers', () => {
+    expect(
+      serialize({
+        at: new Date('2026-01-02T03:04:05.000Z'),
+        bad: new Date('nope'),
+        big: BigInt('9007199254740993'),
+        sym: Symbol('id'),
+        fn: function submitOrder() {},
+        arrow: () => {},
+        nan: NaN,
+        inf: Infinity,
+        pattern: /^a+$/i,
+      })
+    ).toEqual({
+      at: '2026-01-02T03:04:05.000Z',
+      bad: 'Invalid Date',
+      big: '9007199254740993n',
+      sym: 'Symbol(id)',
+      fn: '[Function: submitOrder]',
+      arrow: '[Function: arrow]',
+      nan: 'NaN',
+      inf: 'Infinity',
+      pattern: '/^a+$/i',
+    })
+  })
+
+  it('walks class instances and names empty ones', () => {
+    expect(serialize({ cart: new Cart(), handle: new Handle() })).toEqual({
+      cart: { items: 2, owner: 'ada' },
+      handle: '[Handle]',
+    })
+  })
+
+  it('summarizes errors, events, responses and binary data', () => {
+    const event = new Event('click')
+
+    expect(
+      serialize({
+        error: new TypeError('Bad input'),
+        event,
+        response: new Response('', { status: 404, statusText: 'Not Found' }),
+        bytes: new Uint8Array(16),
+      })
+    ).toEqual({
+      error: { name: 'TypeError', message: 'Bad input' },
+      event: { type: 'click', target: null },
+      response: { url: '', status: 404, statusText: 'Not Found' },
+      bytes: '[Uint8Array(16 bytes)]',
+    })
+  })
+
+  it('uses toJSON when there is one', () => {
+    expect(serialize({ money: { toJSON: () => '12.50 EUR' } })).toEqual({ money: '12.50 EUR' })
+  })
+
+  it('marks properties whose getters throw', () => {
+    const value = {
+      get broken(): string {
+        throw new Error('nope')
+      },
+    }
+
+    expect(serialize(value)).toEqual({ broken: '[Unreadable]' })
+  })
+
+  it('cuts values nested deeper than maxDepth', () => {
+    expect(serialize({ a: { b: { c: [1] } } }, 2)).toEqual({ a: { b: '[Object]' } })
+  })
+})
+
+describe('describeValue', () => {
+  it('describes strings and errors directly', () => {
+    expect(describeValue('Timed out')).toBe('Timed out')
+    expect(describeValue(new RangeError('Too far'))).toBe('RangeError: Too far')
+  })
+
+  it('describes plain objects and arrays as JSON', () => {
+    expect(describeValue({ code: 'E_QUOTA', retry: false })).toBe('{"code":"E_QUOTA","retry":false}')
+    expect(describeValue([1, 2])).toBe('[1,2]')
+  })
+
+  it('names class instances', () => {
+    expect(describeValue(new Cart())).toBe('Cart {"items":2,"owner":"ada"}')
+  })
+
+  it('describes events with their target', () => {
+    const img = document.createElement('img')
+    img.id = 'logo'
+    const event = new Event('error')
+    img.addEventListener('error', () => {})
+    img.dispatchEvent(event)
+
+    expect(describeValue(event)).toBe('Event "error" on [Element: img#logo]')
+  })
+
+  it('describes responses', () => {
+    expect(describeValue(new Response('', { status: 503, statusText: 'Service Unavailable' }))).toBe(
+      'Response 503 Service Unavailable'
+    )
+  })
+
+  it('describes primitives', () => {
+    expect(describeValue(42)).toBe('42')
+    expect(describeValue(null)).toBe('null')
+    expect(describeValue(undefined)).toBe('undefined')
+    expect(describeValue(BigInt(7))).toBe('7n')
+  })
+
+  it('shortens long descriptions', () => {
+    expect(describeValue({ text: 'x'.repeat(1000) })).toHaveLength(300)
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { SourceMap, decodeVlq, decodeMappings } from '../src/sourcemap'
+
+describe('decodeVlq', () => {
+  it('decodes single and multi-digit values', () => {
+    expect(decodeVlq('AAAA')).toEqual([0, 0, 0, 0])
+    expect(decodeVlq('CAAC')).toEqual([1, 0, 0, 1])
+    expect(decodeVlq('D')).toEqual([-1])
+    expect(decodeVlq('gB')).toEqual([16])
+    expect(decodeVlq('2HwcrxB')).toEqual([123, 456, -789])
+  })
+
+  it('rejects invalid characters', () => {
+    expect(() => decodeVlq('A!')).toThrow('Invalid base64 VLQ character')
+  })
+})
+
+describe('decodeMappings', () => {
+  it('accumulates fields across segments and lines', () => {
+    const lines = decodeMappings('AAAA,EAAE;AACA')
+
+    expect(lines[0]).toEqual([
+      { generatedColumn: 0, source: 0, originalLine: 0, originalColumn: 0 },
+      { generatedColumn: 2, source: 0, originalLine: 0, originalColumn: 2 },
+    ])
+    expect(lines[1]).toEqual([{ generatedColumn: 0, source: 0, originalLine: 1, originalColumn: 2 }])
+  })
+})
+
+describe('SourceMap', () => {
+  const map = new SourceMap({
+    version: 3,
+    sourceRoot: 'webpack:///',
+    sources: ['src/app.ts'],
+    names: ['render'],
+    // Line 1: col 0 -> app.ts 1:0, col 10 -> app.ts 3:4 (name "render")
+    mappings: 'AAAA,UAEIA',
+  })
+
+  it('finds the closest preceding mapping', () => {
+    expect(map.originalPositionFor(1, 1)).toEqual({
+      source: 'webpack:///src/app.ts',
+      line: 1,
+      column: 1,
+      name: undefined,
+    })
+    expect(map.originalPositionFor(1, 15)).toEqual({
+      source: 'webpack:///src/app.ts',
+      line: 3,
+      column: 5,
+      name: 'render',
+    })
+  })
+
+  it('returns null for unmapped lines', () => {
+    expect(map.originalPositionFor(2, 1)).toBeNull()
+  })
+
+  it('rejects unsupported versions', () => {
+    expect(() => new SourceMap({ version: 2, sources: [], mappings: '' })).toThrow('Unsupported source map version')
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { parseStackFrames, parseStackLine } from '../src/stacktrace'
+import {
+  CHROME_TYPE_ERROR,
+  CHROME_EVAL,
+  CHROME_NATIVE,
+  CHROME_WITH_PORT,
+  FIREFOX_TYPE_ERROR,
+  FIREFOX_EVAL,
+  SAFARI_TYPE_ERROR,
+  SAFARI_EVAL,
+} from './fixtures/stacktraces'
+
+const MAIN = 'https://shop.example.com/assets/main.3f2a.js'
+const CONSOLE = 'https://shop.example.com/assets/console.js'
+
+describe('parseStackFrames', () => {
+  it('returns an empty array without a stack', () => {
+    expect(parseStackFrames(undefined)).toEqual([])
+    expect(parseStackFrames('')).toEqual([])
+  })
+
+  describe('Chrome', () => {
+    it('parses named, anonymous, async and constructor frames', () => {
+      expect(parseStackFrames(CHROME_TYPE_ERROR)).toEqual([
+        { function: 'renderSummary', file: MAIN, line: 1, column: 48213 },
+        { function: 'HTMLButtonElement.<anonymous>', file: MAIN, line: 1, column: 50122 },
+        { function: 'CheckoutForm.submit', file: 'https://shop.example.com/assets/checkout.js', line: 42, column: 17 },
+        { function: 'new Cart', file: 'https://shop.example.com/assets/cart.js', line: 12, column: 9 },
+        { function: 'Array.map', file: undefined, line: undefined, column: undefined },
+        { function: undefined, file: 'https://shop.example.com/assets/vendor.js', line: 3, column: 1877 },
+      ])
+    })
+
+    it('reports eval frames at the calling script', () => {
+      const frames = parseStackFrames(CHROME_EVAL)
+
+      expect(frames[0]).toEqual({ function: 'eval', file: CONSOLE, line: 88, column: 14 })
+      expect(frames[2]).toEqual({
+        function: 'Object.<anonymous>',
+        file: 'http://localhost:8080/index.js',
+        line: 5,
+        column: 3,
+      })
+    })
+
+    it('parses native frames without a file', () => {
+      expect(parseStackFrames(CHROME_NATIVE)).toEqual([
+        { function: 'Promise.all', file: undefined, line: undefined, column: undefined },
+        { function: 'JSON.parse', file: undefined, line: undefined, column: undefined },
+        { function: undefined, file: undefined, line: undefined, column: undefined },
+      ])
+    })
+
+    it('keeps ports in URLs', () => {
+      expect(parseStackFrames(CHROME_WITH_PORT)[0]).toEqual({
+        function: 'load',
+        file: 'http://localhost:3000/static/js/bundle.js',
+        line: 1042,
+        column: 11,
+      })
+    })
+  })
+
+  describe('Firefox', () => {
+    it('parses named, nested and anonymous frames', () => {
+      expect(parseStackFrames(FIREFOX_TYPE_ERROR)).toEqual([
+        { function: 'renderSummary', file: MAIN, line: 1, column: 48213 },
+        {
+          function: 'CheckoutForm.prototype.submit',
+          file: 'https://shop.example.com/assets/checkout.js',
+          line: 42,
+          column: 17,
+        },
+        { function: 'handleClick', file: MAIN, line: 1, column: 50122 },
+        { function: undefined, file: 'https://shop.example.com/assets/vendor.js', line: 3, column: 1877 },
+      ])
+    })
+
+    it('reports eval and Function frames at the calling line', () => {
+      const frames = parseStackFrames(FIREFOX_EVAL)
+
+      expect(frames[0]).toEqual({ function: undefined, file: CONSOLE, line: 88, column: undefined })
+      expect(frames[2]).toEqual({
+        function: undefined,
+        file: 'https://shop.example.com/assets/widget.js',
+        line: 4,
+        column: undefined,
+      })
+    })
+  })
+
+  describe('Safari', () => {
+    it('parses named, native and global code frames', () => {
+      expect(parseStackFrames(SAFARI_TYPE_ERROR)).toEqual([
+        { function: 'renderSummary', file: MAIN, line: 1, column: 48213 },
+        { function: 'submit', file: 'https://shop.example.com/assets/checkout.js', line: 42, column: 17 },
+        { function: 'map', file: undefined, line: undefined, column: undefined },
+        { function: undefined, file: 'https://shop.example.com/assets/vendor.js', line: 3, column: 1877 },
+      ])
+    })
+
+    it('skips empty eval code frames', () => {
+      expect(parseStackFrames(SAFARI_EVAL)).toEqual([
+        { function: 'eval', file: undefined, line: undefined, column: undefined },
+        { function: 'runSnippet', file: CONSOLE, line: 88, column: 14 },
+      ])
+    })
+  })
+
+  it('limits the number of frames', () => {
+    const stack = Array.from({ length: 150 }, (_, i) => `    at fn${i} (app.js:${i + 1}:1)`).join('\n')
+    expect(parseStackFrames(stack)).toHaveLength(100)
+  })
+})
+
+describe('parseStackLine', () => {
+  it('ignores message lines', () => {
+    expect(parseStackLine("TypeError: Cannot read properties of undefined (reading 'total')")).toBeNull()
+    expect(parseStackLine('Error: invalid email jane@example.com')).toBeNull()
+    expect(parseStackLine('at least one item is required')).toBeNull()
+  })
+})
+
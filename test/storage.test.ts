@@ -0,0 +1,342 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { IDBFactory } from 'fake-indexeddb'
+import {
+  IndexedDBStore,
+  LocalStorageStore,
+  PersistentQueue,
+  createQueueStore,
+} from '../src/storage'
+import type { QueueStore, StoredNotice } from '../src/storage'
+import { Client } from '../src/client'
+import { Configuration } from '../src/configuration'
+import { createNotice, toPayload } from '../src/notice'
+import type { NoticePayload } from '../src/types'
+
+function payload(message: string): NoticePayload {
+  return toPayload(createNotice(new Error(message)))
+}
+
+class MemoryStore implements QueueStore {
+  entries: StoredNotice[] = []
+
+  async read(): Promise<StoredNotice[]> {
+    return [...this.entries]
+  }
+
+  async write(entries: StoredNotice[]): Promise<void> {
+    this.entries = [...entries]
+  }
+}
+
+const limits = { maxEntries: 10, maxBytes: 100000, maxAge: 60000 }
+
+describe('LocalStorageStore', () => {
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('reads and writes entries', async () => {
+    const store = new LocalStorageStore('checkend:test')
+    const entries = [{ payload: payload('Stored'), storedAt: 1 }]
+
+    await store.write(entries)
+
+    expect(await store.read()).toEqual(entries)
+  })
+
+  it('removes the key when written empty', async () => {
+    const store = new LocalStorageStore('checkend:test')
+    await store.write([{ payload: payload('Stored'), storedAt: 1 }])
+    await store.write([])
+
+    expect(localStorage.getItem('checkend:test')).toBeNull()
+  })
+
+  it('ignores corrupt data', async () => {
+    localStorage.setItem('checkend:test', '{not json')
+    const store = new LocalStorageStore('checkend:test')
+
+    expect(await store.read()).toEqual([])
+  })
+})
+
+describe('IndexedDBStore', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reads and writes entries', async () => {
+    const store = new IndexedDBStore('checkend:test')
+    const entries = [{ payload: payload('Stored'), storedAt: 1 }]
+
+    await store.write(entries)
+
+    expect(await new IndexedDBStore('checkend:test').read()).toEqual(entries)
+  })
+
+  it('falls back when the database cannot be opened', async () => {
+    vi.stubGlobal('indexedDB', {
+      open: () => {
+        const request = {} as IDBOpenDBRequest
+        setTimeout(() => request.onerror?.(new Event('error')))
+        return request
+      },
+    })
+    const fallback = new MemoryStore()
+    const store = new IndexedDBStore('checkend:test', fallback)
+
+    await store.write([{ payload: payload('Stored'), storedAt: 1 }])
+
+    expect(fallback.entries).toHaveLength(1)
+  })
+
+  it('is preferred by createQueueStore when available', () => {
+    expect(createQueueStore('checkend:test')).toBeInstanceOf(IndexedDBStore)
+  })
+})
+
+describe('createQueueStore', () => {
+  it('falls back to localStorage without IndexedDB', () => {
+    expect(createQueueStore('checkend:test')).toBeInstanceOf(LocalStorageStore)
+  })
+})
+
+describe('PersistentQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  function messages(store: MemoryStore): string[] {
+    return store.entries.map((entry) => entry.payload.error.message)
+  }
+
+  it('stores payloads and keeps them until removed', async () => {
+    const store = new MemoryStore()
+    const queue = new PersistentQueue(store, limits)
+
+    await queue.add([payload('One'), payload('Two')])
+    const claimed = await queue.claim('tab', 10, 1000)
+
+    expect(claimed.map((p) => p.error.message)).toEqual(['One', 'Two'])
+    expect(messages(store)).toEqual(['One', 'Two'])
+
+    await queue.remove([claimed[0]])
+
+    expect(messages(store)).toEqual(['Two'])
+  })
+
+  it('leases claimed payloads so other clients skip them', async () => {
+    const queue = new PersistentQueue(new MemoryStore(), limits)
+    await queue.add([payload('One'), payload('Two'), payload('Three')])
+
+    const first = await queue.claim('tab-1', 2, 1000)
+    const second = await queue.claim('tab-2', 10, 1000)
+
+    expect(first.map((p) => p.error.message)).toEqual(['One', 'Two'])
+    expect(second.map((p) => p.error.message)).toEqual(['Three'])
+    expect(await queue.claim('tab-1', 10, 1000)).toEqual([])
+  })
+
+  it('hands released and expired leases to the next claim', async () => {
+    vi.useFakeTimers()
+    const queue = new PersistentQueue(new MemoryStore(), limits)
+    await queue.add([payload('Failed'), payload('Abandoned')])
+    const [failed] = await queue.claim('tab-1', 1, 1000)
+    await queue.claim('tab-2', 1, 1000)
+
+    await queue.release([failed], 'tab-2')
+    expect(await queue.claim('tab-3', 10, 1000)).toEqual([])
+
+    await queue.release([failed], 'tab-1')
+    expect((await queue.claim('tab-3', 10, 1000)).map((p) => p.error.message)).toEqual(['Failed'])
+
+    vi.advanceTimersByTime(1001)
+    expect((await queue.claim('tab-3', 10, 1000)).map((p) => p.error.message)).toEqual(['Failed', 'Abandoned'])
+  })
+
+  it('holds a Web Lock while it reads and writes', async () => {
+    const request = vi.fn((_name: string, callback: () => Promise<unknown>) => callback())
+    vi.stubGlobal('navigator', { ...navigator, locks: { request } })
+    const queue = new PersistentQueue(new MemoryStore(), limits, 'checkend:queue:test-key')
+
+    await queue.add([payload('One')])
+    await queue.claim('tab', 10, 1000)
+
+    expect(request).toHaveBeenCalledTimes(2)
+    expect(request).toHaveBeenCalledWith('checkend:queue:test-key', expect.any(Function))
+  })
+
+  it('keeps only the newest entries over maxEntries', async () => {
+    const store = new MemoryStore()
+    const queue = new PersistentQueue(store, { ...limits, maxEntries: 2 })
+
+    await queue.add([payload('One'), payload('Two'), payload('Three')])
+
+    expect(messages(store)).toEqual(['Two', 'Three'])
+  })
+
+  it('evicts the oldest entries over maxBytes', async () => {
+    const one = payload('One')
+    const size = JSON.stringify({ payload: one, storedAt: Date.now() }).length
+    const store = new MemoryStore()
+    const queue = new PersistentQueue(store, { ...limits, maxBytes: size * 2 + 10 })
+
+    await queue.add([one, payload('Two'), payload('Six')])
+
+    expect(messages(store)).toEqual(['Two', 'Six'])
+  })
+
+  it('drops expired entries', async () => {
+    vi.useFakeTimers()
+    const queue = new PersistentQueue(new MemoryStore(), limits)
+
+    await queue.add([payload('Old')])
+    vi.advanceTimersByTime(limits.maxAge + 1)
+    await queue.add([payload('New')])
+
+    expect((await queue.claim('tab', 10, 1000)).map((p) => p.error.message)).toEqual(['New'])
+  })
+
+  it('does not lose entries on concurrent adds', async () => {
+    const store = new MemoryStore()
+    const queue = new PersistentQueue(store, limits)
+
+    await Promise.all([queue.add([payload('One')]), queue.add([payload('Two')])])
+
+    expect(store.entries).toHaveLength(2)
+  })
+})
+
+describe('Client persistence', () => {
+  const originalFetch = globalThis.fetch
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    localStorage.clear()
+    vi.restoreAllMocks()
+  })
+
+  function createClient(): Client {
+    return new Client(new Configuration({ apiKey: 'test-key', persistQueue: true, maxAttempts: 1 }))
+  }
+
+  it('persists notices that fail to send and replays them later', async () => {
+    globalThis.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'))
+    createClient().queueNotice(createNotice(new Error('Lost connection')))
+    await vi.waitFor(() => expect(localStorage.getItem('checkend:queue:test-key')).not.toBeNull())
+
+    const sent: NoticePayload[] = []
+    globalThis.fetch = vi.fn(async (_url: unknown, init?: RequestInit) => {
+      sent.push(JSON.parse(init!.body as string))
+      return new Response(JSON.stringify({ id: 1, problem_id: 1 }), { status: 201 })
+    }) as typeof fetch
+
+    const client = createClient()
+    await client.restorePersisted()
+    await client.flush()
+
+    expect(sent.map((p) => p.error.message)).toEqual(['Lost connection'])
+    expect(localStorage.getItem('checkend:queue:test-key')).toBeNull()
+  })
+
+  it('keeps restored notices stored until they are delivered', async () => {
+    const store = new LocalStorageStore('checkend:queue:test-key')
+    await store.write([{ payload: payload('Stored'), storedAt: Date.now() }])
+    let respond: (response: Response) => void = () => {}
+    globalThis.fetch = vi.fn(() => new Promise<Response>((resolve) => (respond = resolve))) as typeof fetch
+
+    const client = createClient()
+    await client.restorePersisted()
+
+    // Mid-delivery, as when the tab closes
+    await vi.waitFor(() => expect(globalThis.fetch).toHaveBeenCalled())
+    expect(await store.read()).toHaveLength(1)
+
+    respond(new Response(JSON.stringify({ id: 1, problem_id: 1 }), { status: 201 }))
+    await client.flush()
+
+    expect(await store.read()).toEqual([])
+  })
+
+  it('keeps one stored copy when a restored notice fails again', async () => {
+    const store = new LocalStorageStore('checkend:queue:test-key')
+    await store.write([{ payload: payload('Stored'), storedAt: Date.now() }])
+    globalThis.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'))
+
+    const client = createClient()
+    await client.restorePersisted()
+    await client.flush()
+
+    const entries = await store.read()
+    expect(entries.map((entry) => entry.payload.error.message)).toEqual(['Stored'])
+    expect(entries[0].leasedUntil).toBeUndefined()
+  })
+
+  it('sends a stored notice from only one of several open tabs', async () => {
+    const store = new LocalStorageStore('checkend:queue:test-key')
+    await store.write([{ payload: payload('Stored'), storedAt: Date.now() }])
+    globalThis.fetch = vi.fn(async () => new Response(JSON.stringify({ id: 1, problem_id: 1 }), { status: 201 }))
+    const tabs = [createClient(), createClient(), createClient()]
+
+    for (const tab of tabs) {
+      await tab.restorePersisted()
+    }
+    await Promise.all(tabs.map((tab) => tab.flush()))
+
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1)
+    expect(await store.read()).toEqual([])
+  })
+
+  it('leaves notices that do not fit in the queue in storage', async () => {
+    const store = new LocalStorageStore('checkend:queue:test-key')
+    await store.write(['One', 'Two', 'Three'].map((message) => ({ payload: payload(message), storedAt: Date.now() })))
+    const sent: string[] = []
+    globalThis.fetch = vi.fn(async (_url: unknown, init?: RequestInit) => {
+      sent.push(JSON.parse(init!.body as string).error.message)
+      return new Response(JSON.stringify({ id: 1, problem_id: 1 }), { status: 201 })
+    }) as typeof fetch
+
+    const client = new Client(new Configuration({ apiKey: 'test-key', persistQueue: true, maxQueueSize: 2 }))
+    await client.restorePersisted()
+    await client.flush()
+
+    expect(sent).toEqual(['One', 'Two'])
+    expect((await store.read()).map((entry) => entry.payload.error.message)).toEqual(['Three'])
+
+    await client.restorePersisted()
+    await client.flush()
+
+    expect(sent).toEqual(['One', 'Two', 'Three'])
+    expect(await store.read()).toEqual([])
+  })
+
+  it('does not persist permanent failures', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    globalThis.fetch = vi.fn().mockResolvedValue(new Response('bad', { status: 422 }))
+
+    const client = createClient()
+    client.queueNotice(createNotice(new Error('Invalid')))
+    await client.flush()
+
+    expect(localStorage.getItem('checkend:queue:test-key')).toBeNull()
+  })
+
+  it('persists directly while offline', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    globalThis.fetch = vi.fn()
+
+    createClient().queueNotice(createNotice(new Error('Offline')))
+    await vi.waitFor(() => expect(localStorage.getItem('checkend:queue:test-key')).not.toBeNull())
+
+    expect(globalThis.fetch).not.toHaveBeenCalled()
+  })
+})
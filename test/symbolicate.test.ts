@@ -0,0 +1,143 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Symbolicator, symbolicate, checkSourceMaps } from '../src/symbolicate'
+import { createNotice, toPayload } from '../src/notice'
+
+const FIXTURES = join(__dirname, 'fixtures/sourcemaps')
+const BUNDLE_URL = 'https://shop.example.com/assets/main.3f2a.js'
+
+// Columns (1-based) of interesting tokens in the minified fixture
+let reduceColumn: number
+let callColumn: number
+let throwColumn: number
+
+beforeAll(async () => {
+  const minified = await readFile(join(FIXTURES, 'assets/main.3f2a.js'), 'utf8')
+  reduceColumn = minified.indexOf('reduce') + 1
+  callColumn = minified.indexOf('=n(r)') + 2
+  throwColumn = minified.indexOf('new Error') + 1
+})
+
+function minifiedError(): Error {
+  const error = new TypeError("Cannot read properties of undefined (reading 'reduce')")
+  error.stack = [
+    `TypeError: ${error.message}`,
+    `    at n (${BUNDLE_URL}:1:${reduceColumn})`,
+    `    at o (${BUNDLE_URL}:1:${callColumn})`,
+    '    at https://shop.example.com/assets/inline.js:1:1',
+  ].join('\n')
+  return error
+}
+
+describe('Symbolicator', () => {
+  it('maps frames to original files, lines and columns', async () => {
+    const symbolicator = new Symbolicator({ sourceMapDir: FIXTURES })
+
+    const frames = await symbolicator.symbolicateFrames([{ function: 'o', file: BUNDLE_URL, line: 1, column: throwColumn }])
+
+    expect(frames[0]).toEqual({ function: 'o', file: 'src/checkout.js', line: 8, column: 11 })
+  })
+
+  it('recovers function names from the calling frame', async () => {
+    const notice = createNotice(minifiedError())
+
+    const result = await new Symbolicator({ sourceMapDir: FIXTURES }).symbolicateNotice(notice)
+
+    expect(result.frames[0]).toMatchObject({ function: 'calculateTotal', file: 'src/checkout.js', line: 2 })
+    expect(result.frames[1]).toMatchObject({ function: 'o', file: 'src/checkout.js', line: 6 })
+    expect(result.backtrace[0]).toMatch(/^at calculateTotal \(src\/checkout\.js:2:\d+\)$/)
+  })
+
+  it('leaves frames without a source map untouched', async () => {
+    const notice = createNotice(minifiedError())
+
+    const result = await new Symbolicator({ sourceMapDir: FIXTURES }).symbolicateNotice(notice)
+
+    expect(result.frames[2]).toEqual(notice.frames[2])
+  })
+
+  it('does not modify the input notice', async () => {
+    const notice = createNotice(minifiedError())
+    const frames = [...notice.frames]
+
+    await new Symbolicator({ sourceMapDir: FIXTURES }).symbolicateNotice(notice)
+
+    expect(notice.frames).toEqual(frames)
+  })
+
+  it('finds source maps by the longest matching path', async () => {
+    const symbolicator = new Symbolicator({ sourceMapDir: FIXTURES })
+
+    expect(await symbolicator.findSourceMap(`${BUNDLE_URL}?v=2`)).toBe(join(FIXTURES, 'assets/main.3f2a.js.map'))
+    expect(await symbolicator.findSourceMap('https://shop.example.com/other.js')).toBeNull()
+  })
+})
+
+describe('symbolicate', () => {
+  it('symbolicates payloads, parsing frames from the backtrace when missing', async () => {
+    const payload = toPayload(createNotice(minifiedError()))
+    delete payload.error.frames
+
+    const result = await symbolicate(payload, { sourceMapDir: FIXTURES })
+
+    expect(result.error.frames?.[0]).toMatchObject({ function: 'calculateTotal', file: 'src/checkout.js' })
+    expect(result.error.backtrace[0]).toContain('src/checkout.js:2:')
+    expect(result.notifier).toEqual(payload.notifier)
+  })
+
+  it('symbolicates notices', async () => {
+    const result = await symbolicate(createNotice(minifiedError()), { sourceMapDir: FIXTURES })
+
+    expect(result.frames[0].file).toBe('src/checkout.js')
+  })
+})
+
+describe('checkSourceMaps', () => {
+  let dir: string
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'checkend-sourcemaps-'))
+    await mkdir(join(dir, 'maps'))
+    await writeFile(join(dir, 'app.js'), 'run()\n//# sourceMappingURL=app.js.map\n')
+    await writeFile(join(dir, 'app.js.map'), JSON.stringify({ version: 3, sources: [], mappings: '' }))
+    await writeFile(join(dir, 'inline.js'), 'run()\n//# sourceMappingURL=data:application/json;base64,e30=\n')
+    await writeFile(join(dir, 'vendor.js'), 'run()\n')
+    await writeFile(join(dir, 'broken.js'), 'run()\n')
+    await writeFile(join(dir, 'broken.js.map'), '{not json')
+  })
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('reports the source map status of every script', async () => {
+    const results = await checkSourceMaps(dir)
+
+    expect(results.map((r) => [r.file, r.status])).toEqual([
+      ['app.js', 'found'],
+      ['broken.js', 'invalid'],
+      ['inline.js', 'inline'],
+      ['vendor.js', 'missing'],
+    ])
+    expect(results[0].sourceMap).toBe(join(dir, 'app.js.map'))
+  })
+
+  it('looks up maps stored in a separate directory', async () => {
+    await writeFile(join(dir, 'maps/vendor.js.map'), JSON.stringify({ version: 3, sources: [], mappings: '' }))
+
+    const results = await checkSourceMaps(dir, { sourceMapDir: join(dir, 'maps') })
+
+    expect(results.find((r) => r.file === 'vendor.js')?.status).toBe('found')
+  })
+
+  it('checks the fixture bundle', async () => {
+    const results = await checkSourceMaps(join(FIXTURES, 'assets'))
+
+    expect(results).toEqual([
+      { file: 'main.3f2a.js', status: 'found', sourceMap: join(FIXTURES, 'assets/main.3f2a.js.map') },
+    ])
+  })
+})
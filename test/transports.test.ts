@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Client } from '../src/client'
+import { Configuration } from '../src/configuration'
+import { createNotice, toPayload } from '../src/notice'
+import { FetchTransport, XhrTransport, BeaconTransport } from '../src/transports'
+import type { ConfigOptions, NoticePayload, Transport, TransportResult } from '../src/types'
+
+const options = { apiKey: 'test-key', ingestUrl: 'https://app.checkend.io/ingest/v1/errors' }
+
+function payload(message = 'Test'): NoticePayload {
+  return toPayload(createNotice(new Error(message)))
+}
+
+function createClient(transport: Transport, overrides: Partial<ConfigOptions> = {}): Client {
+  return new Client(new Configuration({ apiKey: 'test-key', transport, ...overrides }))
+}
+
+class RecordingTransport implements Transport {
+  sent: NoticePayload[] = []
+  results: TransportResult[] = []
+
+  async send(payload: NoticePayload): Promise<TransportResult> {
+    this.sent.push(payload)
+    return this.results.shift() ?? { response: { id: this.sent.length, problem_id: 1 }, retryable: false }
+  }
+}
+
+describe('custom transport', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('delivers queued notices', async () => {
+    const transport = new RecordingTransport()
+    const client = createClient(transport)
+
+    client.queueNotice(createNotice(new Error('Queued')))
+    await client.flush()
+
+    expect(transport.sent.map((sent) => sent.error.message)).toEqual(['Queued'])
+  })
+
+  it('replaces sendBeacon in sendNotice', async () => {
+    const sendBeacon = vi.fn().mockReturnValue(true)
+    vi.stubGlobal('navigator', { ...navigator, sendBeacon })
+    const transport = new RecordingTransport()
+
+    const response = await createClient(transport, { useSendBeacon: true }).sendNotice(createNotice(new Error('Sync')))
+
+    expect(response).toEqual({ id: 1, problem_id: 1 })
+    expect(sendBeacon).not.toHaveBeenCalled()
+  })
+
+  it('passes results to afterNotify', async () => {
+    const afterNotify = vi.fn()
+    const transport = new RecordingTransport()
+    const error = new Error('Refused')
+    transport.results.push({ response: null, retryable: false, error })
+    const client = createClient(transport, { afterNotify: [afterNotify] })
+
+    const notice = createNotice(new Error('Queued'))
+    client.queueNotice(notice)
+    await client.flush()
+
+    expect(afterNotify).toHaveBeenCalledWith(notice, { response: null, error })
+  })
+
+  it('retries retryable results', async () => {
+    vi.useFakeTimers()
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    const transport = new RecordingTransport()
+    transport.results.push({ response: null, retryable: true, error: new Error('Offline') })
+    const client = createClient(transport)
+
+    client.queueNotice(createNotice(new Error('Queued')))
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(transport.sent).toHaveLength(2)
+  })
+
+  it('treats a transport that throws as a retryable failure', async () => {
+    const afterNotify = vi.fn()
+    const error = new Error('IPC channel closed')
+    const transport: Transport = { send: vi.fn().mockRejectedValue(error) }
+    const client = createClient(transport, { afterNotify: [afterNotify], persistQueue: true, maxAttempts: 2 })
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+
+    const notice = createNotice(new Error('Queued'))
+    client.queueNotice(notice)
+    await client.flush()
+
+    expect(transport.send).toHaveBeenCalledTimes(2)
+    expect(afterNotify).toHaveBeenCalledWith(notice, { response: null, error })
+    expect(localStorage.getItem('checkend:queue:test-key')).toContain('Queued')
+    localStorage.clear()
+  })
+
+  it('sends batches one payload at a time without sendBatch', async () => {
+    const transport = new RecordingTransport()
+    const client = createClient(transport, { batch: true })
+
+    client.queueNotice(createNotice(new Error('First')))
+    client.queueNotice(createNotice(new Error('Second')))
+    await client.flush()
+
+    expect(transport.sent).toHaveLength(2)
+  })
+
+  it('can wrap a built-in transport', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response('{"id":1,"problem_id":2}', { status: 201 }))
+    vi.stubGlobal('fetch', fetchMock)
+    const inner = new FetchTransport(options)
+    const wrapped: Transport = {
+      send: (sent) => inner.send({ ...sent, context: { ...sent.context, wrapped: true } }),
+    }
+    const client = createClient(wrapped)
+
+    client.queueNotice(createNotice(new Error('Queued')))
+    await client.flush()
+
+    const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string)
+    expect(body.context.wrapped).toBe(true)
+  })
+})
+
+describe('FetchTransport', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('posts the payload with the ingestion key', async () => {
+    fetchMock.mockResolvedValue(new Response('{"id":1,"problem_id":2}', { status: 201 }))
+
+    const result = await new FetchTransport(options).send(payload('Sent'))
+
+    expect(result).toEqual({ response: { id: 1, problem_id: 2 }, retryable: false })
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe(options.ingestUrl)
+    expect((init as RequestInit).headers).toMatchObject({ 'Checkend-Ingestion-Key': 'test-key' })
+  })
+
+  it('posts to the tunnel without the ingestion key', async () => {
+    fetchMock.mockResolvedValue(new Response('{"id":1,"problem_id":2}', { status: 201 }))
+
+    await new FetchTransport({ ...options, tunnel: '/checkend' }).sendBatch([payload()])
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('/checkend')
+    expect((init as RequestInit).headers).not.toHaveProperty('Checkend-Ingestion-Key')
+  })
+
+  it('reports rate limiting with the Retry-After delay', async () => {
+    fetchMock.mockResolvedValue(new Response('', { status: 429, headers: { 'Retry-After': '30' } }))
+
+    const result = await new FetchTransport(options).send(payload())
+
+    expect(result).toMatchObject({ retryable: true, retryAfter: 30000 })
+  })
+
+  it('marks network failures retryable', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+
+    const result = await new FetchTransport(options).send(payload())
+
+    expect(result.retryable).toBe(true)
+    expect(result.error?.message).toBe('Failed to fetch')
+  })
+})
+
+describe('XhrTransport', () => {
+  class FakeXMLHttpRequest {
+    static last: FakeXMLHttpRequest
+    method = ''
+    url = ''
+    headers: Record<string, string> = {}
+    body: unknown
+    status = 0
+    responseText = ''
+    timeout = 0
+    onload: (() => void) | null = null
+    onerror: (() => void) | null = null
+    ontimeout: (() => void) | null = null
+
+    constructor() {
+      FakeXMLHttpRequest.last = this
+    }
+
+    open(method: string, url: string): void {
+      this.method = method
+      this.url = url
+    }
+
+    setRequestHeader(name: string, value: string): void {
+      this.headers[name] = value
+    }
+
+    getResponseHeader(): string | null {
+      return null
+    }
+
+    send(body: unknown): void {
+      this.body = body
+    }
+
+    respond(status: number, responseText: string): void {
+      this.status = status
+      this.responseText = responseText
+      this.onload?.()
+    }
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.stubGlobal('XMLHttpRequest', FakeXMLHttpRequest)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('posts the payload and reads the response', async () => {
+    const result = new XhrTransport({ ...options, timeout: 5000 }).send(payload('Sent'))
+    const xhr = FakeXMLHttpRequest.last
+    xhr.respond(201, '{"id":3,"problem_id":4}')
+
+    expect(await result).toEqual({ response: { id: 3, problem_id: 4 }, retryable: false })
+    expect(xhr.method).toBe('POST')
+    expect(xhr.url).toBe(options.ingestUrl)
+    expect(xhr.timeout).toBe(5000)
+    expect(xhr.headers['Checkend-Ingestion-Key']).toBe('test-key')
+    expect(JSON.parse(xhr.body as string).error.message).toBe('Sent')
+  })
+
+  it('marks server errors retryable', async () => {
+    const result = new XhrTransport(options).send(payload())
+    FakeXMLHttpRequest.last.respond(503, '')
+
+    expect(await result).toMatchObject({ retryable: true, error: new Error('Checkend responded with 503') })
+  })
+
+  it('marks network errors retryable', async () => {
+    const result = new XhrTransport(options).send(payload())
+    FakeXMLHttpRequest.last.onerror?.()
+
+    expect(await result).toMatchObject({ retryable: true, error: new Error('Network request failed') })
+  })
+})
+
+describe('BeaconTransport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sends to the ingest URL with the key in the query string', async () => {
+    const sendBeacon = vi.fn().mockReturnValue(true)
+    vi.stubGlobal('navigator', { ...navigator, sendBeacon })
+
+    const result = await new BeaconTransport(options).send(payload())
+
+    expect(result).toEqual({ response: null, retryable: false })
+    expect(sendBeacon).toHaveBeenCalledWith(`${options.ingestUrl}?key=test-key`, expect.any(Blob))
+  })
+
+  it('sends to the tunnel without the key', async () => {
+    const sendBeacon = vi.fn().mockReturnValue(true)
+    vi.stubGlobal('navigator', { ...navigator, sendBeacon })
+
+    await new BeaconTransport({ ...options, tunnel: '/checkend' }).send(payload())
+
+    expect(sendBeacon).toHaveBeenCalledWith('/checkend', expect.any(Blob))
+  })
+
+  it('fails when the browser refuses the beacon', async () => {
+    vi.stubGlobal('navigator', { ...navigator, sendBeacon: vi.fn().mockReturnValue(false) })
+
+    const result = await new BeaconTransport(options).send(payload())
+
+    expect(result.error?.message).toBe('sendBeacon refused the notice')
+  })
+
+  it('fails without sendBeacon', async () => {
+    vi.stubGlobal('navigator', { userAgent: 'Test' })
+
+    const result = await new BeaconTransport(options).send(payload())
+
+    expect(result.error?.message).toBe('sendBeacon is not available')
+  })
+})
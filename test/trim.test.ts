@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { trimPayload, payloadSize } from '../src/trim'
+import { CheckendClient } from '../src/checkend'
+import type { NoticePayload } from '../src/types'
+
+function payload(overrides: Partial<NoticePayload> = {}): NoticePayload {
+  return {
+    error: {
+      class: 'Error',
+      message: 'Checkout failed',
+      backtrace: Array.from({ length: 40 }, (_, i) => `at frame${i} (https://example.com/app.js:${i}:1)`),
+      frames: Array.from({ length: 40 }, (_, i) => ({ function: `frame${i}`, file: 'https://example.com/app.js', line: i })),
+      occurred_at: '2026-01-01T00:00:00.000Z',
+    },
+    context: { environment: 'production' },
+    request: { url: 'https://example.com/checkout' },
+    user: { id: 42 },
+    notifier: { name: '@checkend/browser', version: '0.1.0', language: 'javascript', language_version: 'test' },
+    ...overrides,
+  }
+}
+
+const big = (size: number): string => 'x'.repeat(size)
+
+describe('trimPayload', () => {
+  it('returns payloads that fit unchanged', () => {
+    const original = payload()
+
+    expect(trimPayload(original, 64000)).toBe(original)
+  })
+
+  it('drops the oldest breadcrumbs first', () => {
+    const breadcrumbs = Array.from({ length: 20 }, (_, i) => ({
+      type: 'manual' as const,
+      category: 'test',
+      message: `crumb ${i} ${big(500)}`,
+      level: 'info' as const,
+      timestamp: '2026-01-01T00:00:00.000Z',
+    }))
+    const original = payload({ breadcrumbs, context: { environment: 'production', cart: { items: 3 } } })
+
+    const trimmed = trimPayload(original, 6000)
+
+    expect(payloadSize(trimmed)).toBeLessThanOrEqual(6000)
+    expect(trimmed.breadcrumbs!.length).toBeLessThan(20)
+    expect(trimmed.breadcrumbs!.at(-1)!.message).toContain('crumb 19')
+    expect(trimmed.context.cart).toEqual({ items: 3 })
+    expect(trimmed.truncated).toEqual({ original_size: payloadSize(original), breadcrumbs: 20 - trimmed.breadcrumbs!.length })
+  })
+
+  it('drops the largest context entries next, keeping environment', () => {
+    const original = payload({ context: { environment: 'production', state: big(8000), page: 'checkout' } })
+
+    const trimmed = trimPayload(original, 6000)
+
+    expect(trimmed.context).toEqual({ environment: 'production', page: 'checkout' })
+    expect(trimmed.truncated?.context_keys).toEqual(['state'])
+  })
+
+  it('cuts deeply nested request and user values', () => {
+    const original = payload({ user: { id: 42, profile: { preferences: { history: big(8000) } } } })
+
+    const trimmed = trimPayload(original, 6000)
+
+    expect(payloadSize(trimmed)).toBeLessThanOrEqual(6000)
+    expect(trimmed.user.id).toBe(42)
+    expect(JSON.stringify(trimmed.user)).toContain('[TRUNCATED]')
+    expect(trimmed.truncated?.max_depth).toBeGreaterThanOrEqual(1)
+  })
+
+  it('drops the last causes before the backtrace', () => {
+    const causes = Array.from({ length: 4 }, (_, i) => ({
+      class: 'Error',
+      message: `cause ${i} ${big(1000)}`,
+      backtrace: [],
+    }))
+    const original = payload({ causes })
+
+    const trimmed = trimPayload(original, payloadSize(original) - 1500)
+
+    expect(trimmed.causes?.map((cause) => cause.message)).toEqual([causes[0].message, causes[1].message])
+    expect(trimmed.truncated?.causes).toBe(2)
+    expect(trimmed.error.backtrace).toHaveLength(40)
+  })
+
+  it('drops the backtrace tail last', () => {
+    const original = payload()
+
+    const trimmed = trimPayload(original, 2000)
+
+    expect(payloadSize(trimmed)).toBeLessThanOrEqual(2000)
+    expect(trimmed.error.backtrace[0]).toBe(original.error.backtrace[0])
+    expect(trimmed.error.backtrace.length).toBeLessThan(40)
+    expect(trimmed.error.frames?.length ?? 0).toBe(trimmed.error.backtrace.length)
+    expect(trimmed.truncated?.backtrace).toBe(40 - trimmed.error.backtrace.length)
+  })
+
+  it('cuts long strings once nothing else is left to drop', () => {
+    const original = payload({ request: { url: `https://example.com/?q=${big(10000)}` } })
+    original.error.message = big(20000)
+
+    const trimmed = trimPayload(original, 4000)
+
+    expect(payloadSize(trimmed)).toBeLessThanOrEqual(4000)
+    expect(trimmed.error.message).toMatch(/^x+\.\.\.\[TRUNCATED\]$/)
+    expect(trimmed.request.url).toMatch(/^https:\/\/example\.com\/\?q=x+\.\.\.\[TRUNCATED\]$/)
+    expect(trimmed.truncated?.max_string_length).toBeLessThan(4000)
+    expect(trimmed.error.backtrace).toEqual([])
+  })
+
+  it('does not modify the original payload', () => {
+    const original = payload({ context: { environment: 'production', state: big(8000) } })
+
+    trimPayload(original, 6000)
+
+    expect(original.context.state).toHaveLength(8000)
+    expect(original.truncated).toBeUndefined()
+  })
+})
+
+describe('maxPayloadSize', () => {
+  const originalFetch = globalThis.fetch
+  let fetchMock: ReturnType<typeof vi.fn>
+  let client: CheckendClient
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockImplementation(async () => new Response('{"id":1,"problem_id":1}', { status: 201 }))
+    globalThis.fetch = fetchMock as typeof fetch
+  })
+
+  afterEach(() => {
+    client.reset()
+    globalThis.fetch = originalFetch
+  })
+
+  it('trims notices before sending', async () => {
+    client = new CheckendClient({ apiKey: 'test-key', enabled: true, useSendBeacon: false, maxPayloadSize: 8000 })
+
+    client.notify(new Error('Checkout failed'), { context: { state: big(20000) } })
+    await client.flush()
+
+    const body = (fetchMock.mock.calls[0][1] as RequestInit).body as string
+    expect(body.length).toBeLessThanOrEqual(8000)
+    expect(JSON.parse(body).truncated.context_keys).toEqual(['state'])
+  })
+})
@@ -0,0 +1,260 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import { createServer } from 'node:http'
+import type { Server, IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { PassThrough } from 'node:stream'
+import { gzipSync } from 'node:zlib'
+import { createTunnelHandler, createNodeTunnelHandler, isNoticePayload } from '../src/tunnel'
+import { Client } from '../src/client'
+import { Configuration } from '../src/configuration'
+import { createNotice, toPayload } from '../src/notice'
+import type { NoticePayload } from '../src/types'
+
+interface UpstreamRequest {
+  url: string
+  headers: IncomingHttpHeaders
+  /** A notice, or a batch of them on the batch route */
+  body: NoticePayload & { notices?: NoticePayload[] }
+}
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`))
+  })
+}
+
+function close(server: Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()))
+}
+
+function payloadBody(message = 'Test'): string {
+  return JSON.stringify(toPayload(createNotice(new Error(message))))
+}
+
+describe('tunnel', () => {
+  let upstream: Server
+  let endpoint: string
+  let received: UpstreamRequest[]
+  let upstreamStatus: number
+  let upstreamHeaders: Record<string, string>
+
+  beforeAll(async () => {
+    // Stands in for the Checkend API
+    upstream = createServer((req, res) => {
+      const chunks: Buffer[] = []
+      req.on('data', (chunk: Buffer) => chunks.push(chunk))
+      req.on('end', () => {
+        const body = JSON.parse(Buffer.concat(chunks).toString())
+        received.push({ url: req.url!, headers: req.headers, body })
+
+        res.writeHead(upstreamStatus, { 'Content-Type': 'application/json', ...upstreamHeaders })
+        res.end(body.notices ? JSON.stringify({ notices: body.notices.map(() => ({ id: 1, problem_id: 2 })) }) : '{"id":1,"problem_id":2}')
+      })
+    })
+    endpoint = await listen(upstream)
+  })
+
+  afterAll(async () => {
+    await close(upstream)
+  })
+
+  beforeEach(() => {
+    received = []
+    upstreamStatus = 201
+    upstreamHeaders = {}
+  })
+
+  describe('createTunnelHandler', () => {
+    function post(body: BodyInit, headers: Record<string, string> = {}): Promise<Response> {
+      const handler = createTunnelHandler({ apiKey: 'server-key', endpoint })
+      return handler(new Request('https://example.com/checkend', { method: 'POST', body, headers }))
+    }
+
+    it('forwards a notice with the ingestion key', async () => {
+      const response = await post(payloadBody('Tunneled'))
+
+      expect(response.status).toBe(201)
+      expect(await response.json()).toEqual({ id: 1, problem_id: 2 })
+      const [request] = received
+      expect(request.url).toBe('/ingest/v1/errors')
+      expect(request.headers['checkend-ingestion-key']).toBe('server-key')
+      expect(request.body.error.message).toBe('Tunneled')
+    })
+
+    it('forwards batches to the batch route', async () => {
+      const notices = [JSON.parse(payloadBody('First')), JSON.parse(payloadBody('Second'))]
+
+      const response = await post(JSON.stringify({ notices }))
+
+      expect(response.status).toBe(201)
+      expect(received[0].url).toBe('/ingest/v1/errors/batch')
+      expect(received[0].body.notices).toHaveLength(2)
+    })
+
+    it('decompresses gzipped bodies', async () => {
+      const response = await post(gzipSync(payloadBody('Compressed')), { 'Content-Encoding': 'gzip' })
+
+      expect(response.status).toBe(201)
+      expect(received[0].body.error.message).toBe('Compressed')
+    })
+
+    it('passes upstream failures and Retry-After through', async () => {
+      upstreamStatus = 429
+      upstreamHeaders = { 'Retry-After': '30' }
+
+      const response = await post(payloadBody())
+
+      expect(response.status).toBe(429)
+      expect(response.headers.get('Retry-After')).toBe('30')
+    })
+
+    it('rejects bodies that are not notices', async () => {
+      expect((await post('not json')).status).toBe(400)
+      expect((await post(JSON.stringify({ hello: 'world' }))).status).toBe(400)
+      expect((await post(JSON.stringify({ notices: [] }))).status).toBe(400)
+      expect(received).toHaveLength(0)
+    })
+
+    it('rejects bodies over maxBodySize', async () => {
+      const handler = createTunnelHandler({ apiKey: 'server-key', endpoint, maxBodySize: 100 })
+
+      const response = await handler(new Request('https://example.com/checkend', { method: 'POST', body: payloadBody() }))
+
+      expect(response.status).toBe(413)
+      expect(received).toHaveLength(0)
+    })
+
+    it('stops reading a streamed body once it passes maxBodySize', async () => {
+      const handler = createTunnelHandler({ apiKey: 'server-key', endpoint, maxBodySize: 100 })
+      const chunk = new TextEncoder().encode('x'.repeat(64))
+      let pulls = 0
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulls++
+          controller.enqueue(chunk)
+        },
+      })
+
+      const response = await handler(
+        new Request('https://example.com/checkend', { method: 'POST', body, duplex: 'half' } as RequestInit)
+      )
+
+      expect(response.status).toBe(413)
+      expect(pulls).toBeLessThan(5)
+      expect(received).toHaveLength(0)
+    })
+
+    it('answers 400 when the body cannot be read', async () => {
+      const handler = createTunnelHandler({ apiKey: 'server-key', endpoint })
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          controller.error(new Error('aborted'))
+        },
+      })
+
+      const response = await handler(
+        new Request('https://example.com/checkend', { method: 'POST', body, duplex: 'half' } as RequestInit)
+      )
+
+      expect(response.status).toBe(400)
+      expect(received).toHaveLength(0)
+    })
+
+    it('stops decompressing once a body passes maxBodySize', async () => {
+      // About 20 KB compressed, 20 MB once inflated
+      const bomb = gzipSync(Buffer.alloc(20 * 1024 * 1024, ' '))
+
+      const response = await post(bomb, { 'Content-Encoding': 'gzip' })
+
+      expect(bomb.byteLength).toBeLessThan(1000000)
+      expect(response.status).toBe(413)
+      expect(received).toHaveLength(0)
+    })
+
+    it('rejects methods other than POST', async () => {
+      const handler = createTunnelHandler({ apiKey: 'server-key', endpoint })
+
+      expect((await handler(new Request('https://example.com/checkend'))).status).toBe(405)
+    })
+
+    it('answers 502 when Checkend is unreachable', async () => {
+      const handler = createTunnelHandler({ apiKey: 'server-key', endpoint: 'http://127.0.0.1:1' })
+
+      const response = await handler(new Request('https://example.com/checkend', { method: 'POST', body: payloadBody() }))
+
+      expect(response.status).toBe(502)
+    })
+  })
+
+  describe('createNodeTunnelHandler', () => {
+    let tunnel: Server
+    let tunnelUrl: string
+
+    beforeAll(async () => {
+      tunnel = createServer(createNodeTunnelHandler({ apiKey: 'server-key', endpoint, maxBodySize: 5000 }))
+      tunnelUrl = `${await listen(tunnel)}/checkend`
+    })
+
+    afterAll(async () => {
+      await close(tunnel)
+    })
+
+    it('forwards a notice with the ingestion key', async () => {
+      const response = await fetch(tunnelUrl, { method: 'POST', body: payloadBody('From Node') })
+
+      expect(response.status).toBe(201)
+      expect(received[0].headers['checkend-ingestion-key']).toBe('server-key')
+      expect(received[0].body.error.message).toBe('From Node')
+    })
+
+    it('rejects bodies over maxBodySize', async () => {
+      const response = await fetch(tunnelUrl, { method: 'POST', body: 'x'.repeat(6000) })
+
+      expect(response.status).toBe(413)
+      expect(received).toHaveLength(0)
+    })
+
+    it('answers 400 instead of rejecting when the client aborts mid-upload', async () => {
+      const handler = createNodeTunnelHandler({ apiKey: 'server-key', endpoint })
+      const req = Object.assign(new PassThrough(), { method: 'POST', headers: {} })
+      const res = { writeHead: vi.fn(), end: vi.fn() }
+
+      const handled = handler(req as unknown as IncomingMessage, res as unknown as ServerResponse)
+      req.write('{"error":')
+      req.destroy(new Error('aborted'))
+
+      await expect(handled).resolves.toBeUndefined()
+      expect(res.writeHead).toHaveBeenCalledWith(400, { 'Content-Type': 'application/json' })
+      expect(received).toHaveLength(0)
+    })
+
+    it('carries notices from a client configured with tunnel', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const config = new Configuration({ apiKey: 'browser-key', tunnel: tunnelUrl, useSendBeacon: false, batch: true })
+      const client = new Client(config)
+
+      client.queueNotice(createNotice(new Error('First')))
+      client.queueNotice(createNotice(new Error('Second')))
+      await client.flush()
+
+      expect(received).toHaveLength(1)
+      expect(received[0].url).toBe('/ingest/v1/errors/batch')
+      expect(received[0].headers['checkend-ingestion-key']).toBe('server-key')
+      expect(received[0].body.notices?.map((notice) => notice.error.message)).toEqual(['First', 'Second'])
+      vi.restoreAllMocks()
+    })
+  })
+
+  describe('isNoticePayload', () => {
+    it('accepts built payloads', () => {
+      expect(isNoticePayload(JSON.parse(payloadBody()))).toBe(true)
+    })
+
+    it('rejects payloads without an error class and backtrace', () => {
+      expect(isNoticePayload({ error: { message: 'No class' }, notifier: {} })).toBe(false)
+      expect(isNoticePayload([])).toBe(false)
+      expect(isNoticePayload(null)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createApp, defineComponent, h } from 'vue'
+import type { App } from 'vue'
+import { CheckendVue } from '../src/vue'
+import { configure, reset, flush, getBreadcrumbs } from '../src/index'
+import { Testing } from '../src/testing'
+
+const Broken = defineComponent({
+  name: 'CheckoutForm',
+  props: { orderId: Number, password: String },
+  setup() {
+    throw new Error('Setup failed')
+  },
+})
+
+describe('Vue plugin', () => {
+  let container: HTMLDivElement
+  let app: App | null
+
+  function mount(component: ReturnType<typeof defineComponent>, setup: (app: App) => void): void {
+    app = createApp({ render: () => h(component, { orderId: 42, password: 'hunter2' }) })
+    setup(app)
+    app.mount(container)
+  }
+
+  beforeEach(() => {
+    Testing.setup()
+    configure({ apiKey: 'test-key', enabled: true })
+    container = document.createElement('div')
+    app = null
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    app?.unmount()
+    vi.restoreAllMocks()
+    reset()
+    Testing.teardown()
+  })
+
+  it('reports component errors with the component name and lifecycle hook', async () => {
+    mount(Broken, (app) => app.use(CheckendVue))
+    await flush()
+
+    const notice = Testing.lastNotice!
+    expect(notice.message).toBe('Setup failed')
+    expect(notice.tags).toEqual(['vue'])
+    expect(notice.context.vue).toMatchObject({ component: 'CheckoutForm', lifecycleHook: expect.any(String) })
+  })
+
+  it('does not attach props unless asked', async () => {
+    mount(Broken, (app) => app.use(CheckendVue))
+    await flush()
+
+    expect((Testing.lastNotice!.context.vue as Record<string, unknown>).props).toBeUndefined()
+  })
+
+  it('attaches sanitized props', async () => {
+    mount(Broken, (app) => app.use(CheckendVue, { attachProps: true }))
+    await flush()
+
+    const props = (Testing.lastNotice!.context.vue as Record<string, unknown>).props
+    expect(props).toEqual({ orderId: 42, password: '[FILTERED]' })
+  })
+
+  it('chains an existing errorHandler', async () => {
+    const existing = vi.fn()
+
+    mount(Broken, (app) => {
+      app.config.errorHandler = existing
+      app.use(CheckendVue)
+    })
+    await flush()
+
+    expect(Testing.notices).toHaveLength(1)
+    expect(existing).toHaveBeenCalledWith(expect.objectContaining({ message: 'Setup failed' }), expect.anything(), expect.any(String))
+  })
+
+  it('includes the current route', async () => {
+    const router = { currentRoute: { value: { fullPath: '/checkout?step=2', name: 'checkout' } } }
+
+    mount(Broken, (app) => {
+      app.config.globalProperties.$router = router
+      app.use(CheckendVue)
+    })
+    await flush()
+
+    expect(Testing.lastNotice!.context.route).toEqual({ path: '/checkout?step=2', name: 'checkout' })
+  })
+
+  it('filters sensitive query parameters from the route', async () => {
+    const router = { currentRoute: { value: { fullPath: '/reset?token=abc123&step=2', name: 'reset' } } }
+
+    mount(Broken, (app) => {
+      app.config.globalProperties.$router = router
+      app.use(CheckendVue)
+    })
+    await flush()
+
+    expect(Testing.lastNotice!.context.route).toEqual({ path: '/reset?token=%5BFILTERED%5D&step=2', name: 'reset' })
+  })
+
+  it('records warnings as breadcrumbs when a warnHandler exists', () => {
+    const existing = vi.fn()
+    const app = { config: { warnHandler: existing } }
+
+    CheckendVue.install(app, { captureWarnings: true })
+    app.config.warnHandler('Missing required prop', null, '\n  at <CheckoutForm>')
+
+    expect(existing).toHaveBeenCalled()
+    expect(getBreadcrumbs()[0]).toMatchObject({ category: 'vue', level: 'warning', message: 'Missing required prop' })
+  })
+
+  it('keeps printing warnings when there is no previous warnHandler', () => {
+    const app: { config: { warnHandler?: (message: string, instance: null, trace: string) => void } } = { config: {} }
+
+    CheckendVue.install(app, { captureWarnings: true })
+    app.config.warnHandler!('Missing required prop', null, '')
+
+    expect(console.warn).toHaveBeenCalledWith('[Vue warn]: Missing required prop')
+  })
+
+  it('wraps non-Error values', async () => {
+    const app = { config: {} as { errorHandler?: (error: unknown, instance: null, info: string) => void } }
+
+    CheckendVue.install(app)
+    app.config.errorHandler!('bad state', null, 'mounted hook')
+    await flush()
+
+    expect(Testing.lastNotice?.errorClass).toBe('VueError')
+    expect(Testing.lastNotice?.message).toBe('bad state')
+  })
+})
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { CheckendClient, captureRequestInfo } from '../src/checkend'
+import { Configuration } from '../src/configuration'
+import { getGlobalScope, isWorkerScope } from '../src/global'
+import type { NoticePayload } from '../src/types'
+
+class FakeWorkerGlobalScope extends EventTarget {
+  location = { href: 'https://example.com/workers/sync.js', hostname: 'example.com' }
+}
+
+function sentPayloads(fetchMock: ReturnType<typeof vi.fn>): NoticePayload[] {
+  return fetchMock.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string))
+}
+
+describe('worker support', () => {
+  const ErrorEventClass = ErrorEvent
+  let workerScope: FakeWorkerGlobalScope
+  let fetchMock: ReturnType<typeof vi.fn>
+  let client: CheckendClient | null
+
+  beforeEach(() => {
+    workerScope = new FakeWorkerGlobalScope()
+    fetchMock = vi.fn().mockImplementation(async () => new Response('{"id":1,"problem_id":1}', { status: 201 }))
+    client = null
+
+    vi.stubGlobal('WorkerGlobalScope', FakeWorkerGlobalScope)
+    vi.stubGlobal('self', workerScope)
+    vi.stubGlobal('window', undefined)
+    vi.stubGlobal('document', undefined)
+    // WorkerNavigator has no sendBeacon
+    vi.stubGlobal('navigator', { userAgent: 'WorkerAgent/1.0', language: 'en-CA', onLine: true })
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    client?.reset()
+    vi.unstubAllGlobals()
+  })
+
+  it('detects the worker global scope', () => {
+    expect(isWorkerScope()).toBe(true)
+    expect(getGlobalScope()).toBe(workerScope)
+  })
+
+  it('describes the worker location in request', () => {
+    expect(captureRequestInfo()).toEqual({
+      url: 'https://example.com/workers/sync.js',
+      userAgent: 'WorkerAgent/1.0',
+      language: 'en-CA',
+    })
+  })
+
+  it('detects the environment from the worker location', () => {
+    workerScope.location = { href: 'http://localhost:3000/sw.js', hostname: 'localhost' }
+
+    expect(new Configuration({ apiKey: 'test-key' }).environment).toBe('development')
+  })
+
+  it('reports error events on self through fetch', async () => {
+    client = new CheckendClient({ apiKey: 'test-key', enabled: true })
+
+    workerScope.dispatchEvent(
+      new ErrorEventClass('error', {
+        message: 'Uncaught TypeError: job is undefined',
+        filename: 'https://example.com/workers/sync.js',
+        lineno: 12,
+        colno: 7,
+      })
+    )
+    await client.flush()
+
+    const [payload] = sentPayloads(fetchMock)
+    expect(payload.error.message).toBe('Uncaught TypeError: job is undefined')
+    expect(payload.error.tags).toContain('unhandled')
+    expect(payload.request.url).toBe('https://example.com/workers/sync.js')
+  })
+
+  it('reports unhandled rejections on self', async () => {
+    client = new CheckendClient({ apiKey: 'test-key', enabled: true })
+
+    const event = Object.assign(new Event('unhandledrejection'), { reason: new Error('Sync failed') })
+    workerScope.dispatchEvent(event)
+    await client.flush()
+
+    const [payload] = sentPayloads(fetchMock)
+    expect(payload.error.message).toBe('Sync failed')
+    expect(payload.error.tags).toContain('promise-rejection')
+  })
+
+  it('removes its listeners when stopped', async () => {
+    client = new CheckendClient({ apiKey: 'test-key', enabled: true })
+    client.stop()
+
+    workerScope.dispatchEvent(new ErrorEventClass('error', { message: 'After stop' }))
+    await client.flush()
+
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
+
+describe('worker bridge', () => {
+  const originalFetch = globalThis.fetch
+  let fetchMock: ReturnType<typeof vi.fn>
+  let channel: EventTarget
+  let worker: CheckendClient
+  let page: CheckendClient
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockImplementation(async () => new Response('{"id":1,"problem_id":1}', { status: 201 }))
+    globalThis.fetch = fetchMock as typeof fetch
+
+    // Stands in for a Worker / self pair or a BroadcastChannel
+    channel = new EventTarget()
+    const target = { postMessage: (data: unknown) => channel.dispatchEvent(new MessageEvent('message', { data })) }
+
+    worker = new CheckendClient({ apiKey: 'test-key', enabled: true, postMessageTarget: target })
+    page = new CheckendClient({ apiKey: 'test-key', enabled: true, useSendBeacon: false })
+  })
+
+  afterEach(() => {
+    worker.reset()
+    page.reset()
+    globalThis.fetch = originalFetch
+  })
+
+  it('posts worker notices for the page client to send', async () => {
+    page.listenToWorker(channel)
+
+    worker.notify(new Error('Image decode failed'), { context: { jobId: 7 } })
+    await page.flush()
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    const [payload] = sentPayloads(fetchMock)
+    expect(payload.error.message).toBe('Image decode failed')
+    expect(payload.context.jobId).toBe(7)
+  })
+
+  it('ignores unrelated messages', async () => {
+    page.listenToWorker(channel)
+
+    channel.dispatchEvent(new MessageEvent('message', { data: { type: 'progress', value: 50 } }))
+    await page.flush()
+
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('stops listening when unsubscribed', async () => {
+    const unsubscribe = page.listenToWorker(channel)
+    unsubscribe()
+
+    worker.notify(new Error('Image decode failed'))
+    await page.flush()
+
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('drops forwarded notices while the page client is disabled', async () => {
+    page.configure({ apiKey: 'test-key', enabled: false })
+    page.listenToWorker(channel)
+
+    worker.notify(new Error('Image decode failed'))
+    await page.flush()
+
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})